@@ -4,14 +4,31 @@ import { useState, useRef, useEffect, useCallback, useMemo } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-import { Mic, Square, Upload, AlertCircle, FileAudio, X, RefreshCw, Headphones } from "lucide-react"
+import { Mic, Square, Upload, AlertCircle, FileAudio, X, RefreshCw, Headphones, Activity } from "lucide-react"
+import { TimeSignatureSelector } from "./time-signature-selector"
+import { LatencyCalibration } from "./latency-calibration"
+import { LevelMeter } from "./level-meter"
+import { TapTempo } from "./tap-tempo"
+import { cellsPerCount, countAccent, formatTimeSignature, type TimeSignature } from "@/lib/time-signature"
+import { createScheduler, type Scheduler } from "@/lib/audio/scheduler"
+import { playClick, playCountInClick } from "@/lib/audio/click"
+import { getLatencyCalibration, clearLatencyCalibration, type LatencyCalibration as Calibration } from "@/lib/audio/latency"
+import { createTakeRecorder, type TakeRecorder } from "@/lib/audio/take-recorder"
+import { createLiveOnsetDetector, gridOffset, type LiveOnset, type LiveOnsetDetector } from "@/lib/audio/live-onsets"
+import { appliedMicProcessing, DEFAULT_MIC_PROCESSING, getMicProcessing, saveMicProcessing, type MicProcessing } from "@/lib/audio/mic-processing"
+import { clickTimeline, recordingConstraints, MAX_COUNT_IN_BARS, type RecordingMetadata } from "@/lib/audio/recording"
+
+type CountInCue = 'visual' | 'spoken' | 'both' | 'none'
 
 interface AudioRecorderProps {
-  onRecordingComplete: (audioBlob: Blob, metronomeBPM?: number, offsetEnabled?: boolean) => void
+  onRecordingComplete: (audioBuffer: AudioBuffer, metadata: RecordingMetadata) => void
   onFileProcessed: (audioBuffer: AudioBuffer) => void
   onStatusUpdate: (message: string, type: 'recording' | 'analyzing' | 'ready') => void
   isAnalyzing: boolean
   audioContext: AudioContext | null
+  timeSignature: TimeSignature
+  onTimeSignatureChange: (timeSignature: TimeSignature) => void
+  targetBPM?: number // e.g. the tempo of the pattern being practiced
 }
 
 export function AudioRecorder({
@@ -19,7 +36,10 @@ export function AudioRecorder({
   onFileProcessed,
   onStatusUpdate,
   isAnalyzing,
-  audioContext
+  audioContext,
+  timeSignature,
+  onTimeSignatureChange,
+  targetBPM
 }: AudioRecorderProps) {
   const [isRecording, setIsRecording] = useState(false)
   const [stream, setStream] = useState<MediaStream | null>(null)
@@ -30,26 +50,40 @@ export function AudioRecorder({
   const [error, setError] = useState<string | null>(null)
   const [metronomeEnabled, setMetronomeEnabled] = useState(true)
   const [metronomeBPM, setMetronomeBPM] = useState(120)
-  const [metronomeOffset, setMetronomeOffset] = useState(false) // -1 bar offset
+  const [countInBars, setCountInBars] = useState(0)
+  const [countInCue, setCountInCue] = useState<CountInCue>('visual')
+  const [countInBeat, setCountInBeat] = useState<number | null>(null) // count shown during the count-in
   const [audioDevices, setAudioDevices] = useState<MediaDeviceInfo[]>([])
   const [selectedDeviceId, setSelectedDeviceId] = useState<string>('')
   const [isLoadingDevices, setIsLoadingDevices] = useState(false)
+  const [latencyCalibration, setLatencyCalibration] = useState<Calibration | null>(null)
+  const [micProcessing, setMicProcessing] = useState<MicProcessing>(DEFAULT_MIC_PROCESSING)
+  const [meterAnalyser, setMeterAnalyser] = useState<AnalyserNode | null>(null)
+  const [isCheckingLevels, setIsCheckingLevels] = useState(false)
   
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null)
-  const audioChunksRef = useRef<Blob[]>([])
+  const takeRecorderRef = useRef<TakeRecorder | null>(null)
   const analyserRef = useRef<AnalyserNode | null>(null)
+  const levelCheckStreamRef = useRef<MediaStream | null>(null) // mic opened for "check levels" only
   const animationIdRef = useRef<number | null>(null)
   const canvasRef = useRef<HTMLCanvasElement | null>(null)
   const dataArrayRef = useRef<Uint8Array | null>(null)
   const isRecordingRef = useRef<boolean>(false)
   const waveformHistoryRef = useRef<number[]>([])
   const recordingStartTimeRef = useRef<number>(0)
-  const metronomeIntervalRef = useRef<number | null>(null)
+  const recordingContextStartRef = useRef<number | null>(null) // recording start on the AudioContext clock
+  const clickTimesRef = useRef<number[]>([]) // AudioContext time of every scheduled click
+  const liveOnsetsRef = useRef<LiveOnset[]>([])
+  const liveOnsetDetectorRef = useRef<LiveOnsetDetector | null>(null)
+  const latencyOffsetRef = useRef<number>(0)
+  const metronomeSchedulerRef = useRef<Scheduler | null>(null)
   const metronomeAudioContextRef = useRef<AudioContext | null>(null)
   const currentBeatRef = useRef<number>(0)
   const metronomeBPMRef = useRef<number>(metronomeBPM)
   const metronomeEnabledRef = useRef<boolean>(metronomeEnabled)
-  const metronomeOffsetRef = useRef<boolean>(metronomeOffset)
+  const countInBarsRef = useRef<number>(countInBars)
+  const countInCueRef = useRef<CountInCue>(countInCue)
+  const countInClicksRef = useRef<number>(0) // count-in clicks of the current take
+  const timeSignatureRef = useRef<TimeSignature>(timeSignature)
   
   // Keep refs in sync with state
   useEffect(() => {
@@ -61,8 +95,22 @@ export function AudioRecorder({
   }, [metronomeEnabled])
 
   useEffect(() => {
-    metronomeOffsetRef.current = metronomeOffset
-  }, [metronomeOffset])
+    countInBarsRef.current = countInBars
+  }, [countInBars])
+
+  useEffect(() => {
+    countInCueRef.current = countInCue
+  }, [countInCue])
+
+  useEffect(() => {
+    timeSignatureRef.current = timeSignature
+  }, [timeSignature])
+
+  // Follow an externally chosen tempo; the user can still adjust it afterwards. A take
+  // keeps the tempo it started with, since its clicks are the grid it is analyzed on.
+  useEffect(() => {
+    if (targetBPM && !isRecordingRef.current) setMetronomeBPM(targetBPM)
+  }, [targetBPM])
 
   // Load available audio input devices
   const loadAudioDevices = useCallback(async () => {
@@ -94,37 +142,77 @@ export function AudioRecorder({
     loadAudioDevices()
   }, [loadAudioDevices])
 
-  // Metronome click player - simple, no dependencies
-  const playMetronomeClick = (isDownbeat: boolean) => {
-    const ctx = metronomeAudioContextRef.current
-    if (!ctx) return
-    
-    const oscillator = ctx.createOscillator()
-    const gainNode = ctx.createGain()
-    
-    oscillator.frequency.setValueAtTime(isDownbeat ? 800 : 600, ctx.currentTime)
-    oscillator.type = 'square'
-    
-    gainNode.gain.setValueAtTime(0, ctx.currentTime)
-    gainNode.gain.linearRampToValueAtTime(0.1, ctx.currentTime + 0.001)
-    gainNode.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.1)
-    
-    oscillator.connect(gainNode)
-    gainNode.connect(ctx.destination)
-    
-    oscillator.start(ctx.currentTime)
-    oscillator.stop(ctx.currentTime + 0.1)
-  }
+  // Latency is measured per input device
+  useEffect(() => {
+    setLatencyCalibration(getLatencyCalibration(selectedDeviceId))
+  }, [selectedDeviceId])
+
+  useEffect(() => {
+    latencyOffsetRef.current = latencyCalibration?.offset ?? 0
+  }, [latencyCalibration])
+
+  // So is the mic processing
+  useEffect(() => {
+    setMicProcessing(getMicProcessing(selectedDeviceId))
+  }, [selectedDeviceId])
+
+  const updateMicProcessing = useCallback((change: Partial<MicProcessing>) => {
+    setMicProcessing(current => {
+      const next = { ...current, ...change }
+      saveMicProcessing(selectedDeviceId, next)
+      return next
+    })
+  }, [selectedDeviceId])
+
+  // Pre-roll level check: open the mic and drive the meter without recording
+  const stopLevelCheck = useCallback(() => {
+    levelCheckStreamRef.current?.getTracks().forEach(track => track.stop())
+    levelCheckStreamRef.current = null
+    setIsCheckingLevels(false)
+    if (!isRecordingRef.current) setMeterAnalyser(null)
+  }, [])
+
+  const startLevelCheck = useCallback(async () => {
+    try {
+      const mediaStream = await navigator.mediaDevices.getUserMedia(recordingConstraints(selectedDeviceId, micProcessing))
+      const context = audioContext || metronomeAudioContextRef.current || new (window.AudioContext || (window as unknown as typeof AudioContext))()
+      metronomeAudioContextRef.current = context
+      if (context.state === 'suspended') context.resume()
+
+      const analyser = context.createAnalyser()
+      analyser.fftSize = 2048
+      context.createMediaStreamSource(mediaStream).connect(analyser)
+
+      levelCheckStreamRef.current = mediaStream
+      setMeterAnalyser(analyser)
+      setIsCheckingLevels(true)
+    } catch (error) {
+      console.error('Error opening microphone for level check:', error)
+      setError('Could not access the microphone to check levels.')
+    }
+  }, [selectedDeviceId, micProcessing, audioContext])
 
-  // Start metronome - simplified version
+  // A level check is for one device and one set of mic settings
+  useEffect(() => {
+    stopLevelCheck()
+  }, [selectedDeviceId, micProcessing, stopLevelCheck])
+
+  useEffect(() => {
+    return () => levelCheckStreamRef.current?.getTracks().forEach(track => track.stop())
+  }, [])
+
+  const handleClearLatency = useCallback(() => {
+    clearLatencyCalibration(selectedDeviceId)
+    setLatencyCalibration(null)
+  }, [selectedDeviceId])
+
+  // Start metronome - clicks are scheduled ahead on the audio clock
   const startMetronome = useCallback(() => {
     console.log('🎵 Starting metronome', { enabled: metronomeEnabledRef.current, bpm: metronomeBPMRef.current })
     
     // Stop any existing metronome
-    if (metronomeIntervalRef.current) {
-      clearInterval(metronomeIntervalRef.current)
-      metronomeIntervalRef.current = null
-    }
+    metronomeSchedulerRef.current?.stop()
+    metronomeSchedulerRef.current = null
     
     if (!metronomeEnabledRef.current) {
       console.log('❌ Metronome disabled')
@@ -136,46 +224,57 @@ export function AudioRecorder({
       metronomeAudioContextRef.current = audioContext || new (window.AudioContext || (window as unknown as typeof AudioContext))()
     }
     
-    // Reset beat counter
-    currentBeatRef.current = 1
-    
-    // Play first beat immediately
-    console.log('🎵 Playing first beat')
-    playMetronomeClick(true)
-    
-    // Calculate interval using ref value
-    const intervalMs = 60000 / metronomeBPMRef.current
-    console.log('🎵 Setting interval:', intervalMs, 'ms')
-    
-    // Create a simple counter that doesn't depend on closures
-    let beat = 1
-    
-    // Start the interval using window.setInterval for browser compatibility
-    const intervalId = window.setInterval(() => {
-      try {
-        beat = (beat % 4) + 1
-        currentBeatRef.current = beat
-        const isDownbeat = beat === 1
-        console.log(`🎵 Beat ${beat} (${isDownbeat ? 'DOWN' : 'reg'})`)
-        playMetronomeClick(isDownbeat)
-      } catch (error) {
-        console.error('❌ Metronome tick error:', error)
+    // The take's count-in is fixed when it starts; a metronome switched on (or back on)
+    // later in the take just clicks
+    const countInClicks = clickTimesRef.current.length === 0 ? countInClicksRef.current : 0
+
+    // Tempo and meter are read from refs on every beat, so changes apply without a restart
+    const context = metronomeAudioContextRef.current
+    const scheduler = createScheduler({
+      context,
+      getStepDuration: () => 60 / metronomeBPMRef.current,
+      onStep: (step, time) => {
+        const accent = countAccent(timeSignatureRef.current, step)
+        if (step < countInClicks) {
+          playCountInClick(context, accent === 'beat' ? 'beat' : 'downbeat', time)
+        } else {
+          playClick(context, accent, time)
+        }
+        clickTimesRef.current.push(time)
+      },
+      onVisualStep: (step) => {
+        // Beat counter follows what is heard, not when it was scheduled
+        const count = (step % timeSignatureRef.current.numerator) + 1
+        currentBeatRef.current = count
+        if (step < countInClicks) {
+          const cue = countInCueRef.current
+          if (cue === 'visual' || cue === 'both') setCountInBeat(count)
+          if ((cue === 'spoken' || cue === 'both') && 'speechSynthesis' in window) {
+            const utterance = new SpeechSynthesisUtterance(count.toString())
+            utterance.rate = 1.5
+            window.speechSynthesis.cancel()
+            window.speechSynthesis.speak(utterance)
+          }
+        } else if (step === countInClicks && countInClicks > 0) {
+          setCountInBeat(null)
+        }
       }
-    }, intervalMs)
-    
-    metronomeIntervalRef.current = intervalId
-    console.log('🎵 Interval started with ID:', intervalId)
+    })
+    scheduler.start()
+    metronomeSchedulerRef.current = scheduler
+    console.log('🎵 Metronome scheduler started', { countInClicks })
   }, [audioContext])
 
-  // Stop metronome - use window.clearInterval
+  // Stop metronome
   const stopMetronome = useCallback(() => {
-    console.log('🛑 Stopping metronome, interval ID:', metronomeIntervalRef.current)
-    if (metronomeIntervalRef.current !== null) {
-      window.clearInterval(metronomeIntervalRef.current)
-      metronomeIntervalRef.current = null
-      console.log('🛑 Metronome interval cleared')
+    console.log('🛑 Stopping metronome')
+    if (metronomeSchedulerRef.current !== null) {
+      metronomeSchedulerRef.current.stop()
+      metronomeSchedulerRef.current = null
+      console.log('🛑 Metronome scheduler stopped')
     }
     currentBeatRef.current = 0
+    setCountInBeat(null)
   }, [])
   
   // Manage metronome lifecycle with effect to handle React dev mode remounts
@@ -183,13 +282,13 @@ export function AudioRecorder({
     // Only run metronome when recording AND enabled
     if (isRecording && metronomeEnabled) {
       // Start if not already running
-      if (metronomeIntervalRef.current === null) {
+      if (metronomeSchedulerRef.current === null) {
         console.log('📍 Effect starting metronome (recording:', isRecording, 'enabled:', metronomeEnabled, ')')
         startMetronome()
       }
     } else {
       // Stop if running but shouldn't be
-      if (metronomeIntervalRef.current !== null) {
+      if (metronomeSchedulerRef.current !== null) {
         console.log('📍 Effect stopping metronome (recording:', isRecording, 'enabled:', metronomeEnabled, ')')
         stopMetronome()
       }
@@ -197,21 +296,13 @@ export function AudioRecorder({
     
     // Cleanup on unmount or when deps change
     return () => {
-      if (metronomeIntervalRef.current !== null) {
+      if (metronomeSchedulerRef.current !== null) {
         console.log('📍 Effect cleanup - stopping metronome')
         stopMetronome()
       }
     }
   }, [isRecording, metronomeEnabled, startMetronome, stopMetronome])
 
-  // Restart metronome when BPM changes during recording
-  useEffect(() => {
-    if (isRecording && metronomeEnabled && metronomeIntervalRef.current !== null) {
-      console.log('🔄 BPM changed during recording, restarting metronome with new BPM:', metronomeBPM)
-      startMetronome()
-    }
-  }, [metronomeBPM, isRecording, metronomeEnabled, startMetronome])
-
   const drawWaveform = useCallback(() => {
     if (!canvasRef.current) return
     if (!isRecordingRef.current) return
@@ -266,19 +357,6 @@ export function AudioRecorder({
     ctx.lineTo(displayWidth, centerY)
     ctx.stroke()
 
-    // Draw onset detection threshold lines
-    const thresholdOffset = 30
-    ctx.strokeStyle = 'rgb(239, 68, 68)' // red-500
-    ctx.lineWidth = 1
-    ctx.setLineDash([5, 5])
-    ctx.beginPath()
-    ctx.moveTo(0, centerY - thresholdOffset)
-    ctx.lineTo(displayWidth, centerY - thresholdOffset)
-    ctx.moveTo(0, centerY + thresholdOffset)
-    ctx.lineTo(displayWidth, centerY + thresholdOffset)
-    ctx.stroke()
-    ctx.setLineDash([])
-
     // Draw waveform history - ACCUMULATIVE, NO SCROLLING
     if (waveformHistoryRef.current.length > 1) {
       ctx.lineWidth = 2
@@ -330,22 +408,26 @@ export function AudioRecorder({
       ctx.stroke()
     }
 
-    // Draw metronome beat indicators if enabled
-    if (metronomeEnabledRef.current) {
-      const currentTime = (Date.now() - recordingStartTimeRef.current) / 1000
-      const beatInterval = 60 / metronomeBPMRef.current // seconds per beat
-      const totalBeats = Math.floor(currentTime / beatInterval) + 1
+    // Draw metronome beat indicators at the clicks actually heard so far
+    const metronomeContext = metronomeAudioContextRef.current
+    const contextStart = recordingContextStartRef.current
+    if (metronomeEnabledRef.current && metronomeContext && contextStart !== null) {
+      const currentTime = metronomeContext.currentTime - contextStart
+      const heardClicks = clickTimesRef.current.filter(time => time <= metronomeContext.currentTime)
       
       // Draw beat markers
-      for (let beat = 0; beat < totalBeats; beat++) {
-        const beatTime = beat * beatInterval
+      for (let beat = 0; beat < heardClicks.length; beat++) {
+        const beatTime = heardClicks[beat] - contextStart
         const x = (beatTime / currentTime) * displayWidth
         
         if (x >= 0 && x <= displayWidth) {
-          const isDownbeat = (beat + 1) % 4 === 1
+          const isDownbeat = beat % timeSignatureRef.current.numerator === 0
+          const isCountIn = beat < countInClicksRef.current
           
           // Draw beat line
-          ctx.strokeStyle = isDownbeat ? 'rgb(34, 197, 94)' : 'rgb(59, 130, 246)' // green for downbeat, blue for regular
+          ctx.strokeStyle = isCountIn
+            ? 'rgb(156, 163, 175)' // gray for the count-in
+            : isDownbeat ? 'rgb(34, 197, 94)' : 'rgb(59, 130, 246)' // green for downbeat, blue for regular
           ctx.lineWidth = isDownbeat ? 3 : 2
           ctx.setLineDash([])
           ctx.beginPath()
@@ -354,15 +436,49 @@ export function AudioRecorder({
           ctx.stroke()
           
           // Draw beat number
-          ctx.fillStyle = isDownbeat ? 'rgb(22, 163, 74)' : 'rgb(37, 99, 235)'
+          ctx.fillStyle = isCountIn ? 'rgb(107, 114, 128)' : isDownbeat ? 'rgb(22, 163, 74)' : 'rgb(37, 99, 235)'
           ctx.font = 'bold 14px Arial'
           ctx.textAlign = 'center'
-          const beatInMeasure = ((beat) % 4) + 1
+          const beatInMeasure = (beat % timeSignatureRef.current.numerator) + 1
           ctx.fillText(beatInMeasure.toString(), x, 20)
         }
       }
     }
 
+    // Draw live onsets where they were played (latency removed), coloured by how far
+    // they sit from the nearest subdivision of the click grid
+    if (metronomeContext && contextStart !== null) {
+      const currentTime = metronomeContext.currentTime - contextStart
+      const subdivisions = cellsPerCount(timeSignatureRef.current)
+      
+      for (const onset of liveOnsetsRef.current) {
+        const playedAt = onset.time - latencyOffsetRef.current
+        const x = ((playedAt - contextStart) / currentTime) * displayWidth
+        if (x < 0 || x > displayWidth) continue
+        
+        const offset = metronomeEnabledRef.current ? gridOffset(playedAt, clickTimesRef.current, subdivisions) : null
+        const onTime = offset !== null && Math.abs(offset) < 0.02 // same 20ms tolerance as the rhythm grid
+        ctx.strokeStyle = offset === null
+          ? 'rgb(100, 116, 139)' // slate - no metronome to compare against
+          : onTime ? 'rgb(22, 163, 74)' : offset < 0 ? 'rgb(245, 158, 11)' : 'rgb(220, 38, 38)' // green on time, amber early, red late
+        ctx.fillStyle = ctx.strokeStyle
+        ctx.lineWidth = 2
+        ctx.beginPath()
+        ctx.moveTo(x, centerY - 30)
+        ctx.lineTo(x, centerY + 30)
+        ctx.stroke()
+        ctx.beginPath()
+        ctx.arc(x, centerY - 30, 3, 0, Math.PI * 2)
+        ctx.fill()
+        
+        if (offset !== null && !onTime) {
+          ctx.font = 'bold 10px Arial'
+          ctx.textAlign = 'center'
+          ctx.fillText(`${offset < 0 ? '-' : '+'}${Math.round(Math.abs(offset) * 1000)}`, x, centerY - 38)
+        }
+      }
+    }
+
     // Draw time grid and labels
     const currentTime = (Date.now() - recordingStartTimeRef.current) / 1000
     const timePerPixel = currentTime / (waveformHistoryRef.current.length * 2) // Approximate
@@ -396,45 +512,72 @@ export function AudioRecorder({
   }, [])
 
   const startRecording = useCallback(async () => {
+    // The take's own stream drives the meter from here
+    if (levelCheckStreamRef.current) stopLevelCheck()
     try {
-      const constraints: MediaStreamConstraints = { 
-        audio: {
-          deviceId: selectedDeviceId ? { exact: selectedDeviceId } : undefined,
-          echoCancellation: false,
-          noiseSuppression: false,
-          autoGainControl: false,
-          sampleRate: 44100
-        }
-      }
-      
-      const mediaStream = await navigator.mediaDevices.getUserMedia(constraints)
+      const mediaStream = await navigator.mediaDevices.getUserMedia(recordingConstraints(selectedDeviceId, micProcessing))
+      const processing = appliedMicProcessing(mediaStream, micProcessing)
       
       setStream(mediaStream)
-      audioChunksRef.current = []
 
-      const mediaRecorder = new MediaRecorder(mediaStream, {
-        mimeType: 'audio/webm;codecs=opus'
-      })
-      
-      mediaRecorderRef.current = mediaRecorder
+      // One clock for the recording and the metronome, so click times can be placed in the take
+      const context = audioContext || metronomeAudioContextRef.current || new (window.AudioContext || (window as unknown as typeof AudioContext))()
+      metronomeAudioContextRef.current = context
+      recordingContextStartRef.current = null
+      clickTimesRef.current = []
+      countInClicksRef.current = metronomeEnabled ? countInBarsRef.current * timeSignatureRef.current.numerator : 0
+      liveOnsetsRef.current = []
 
-      mediaRecorder.ondataavailable = (event) => {
-        if (event.data.size > 0) {
-          audioChunksRef.current.push(event.data)
-        }
-      }
-
-      mediaRecorder.onstop = () => {
-        const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/webm' })
-        onRecordingComplete(audioBlob, metronomeEnabled ? metronomeBPMRef.current : undefined, metronomeOffsetRef.current)
-        
+      const finishTake = () => {
         // Clean up stream
         mediaStream.getTracks().forEach(track => track.stop())
         setStream(null)
       }
 
-      // Set up real-time audio analysis - create audio context if needed
-      const context = audioContext || new (window.AudioContext || (window as unknown as typeof AudioContext))()
+      const takeRecorder = await createTakeRecorder(context, mediaStream, {
+        onStart: (time) => {
+          recordingContextStartRef.current = time
+        },
+        onComplete: (audioBuffer) => {
+          const startTime = recordingContextStartRef.current
+          const clickTimes = startTime !== null && clickTimesRef.current.length > 0
+            ? clickTimeline(clickTimesRef.current, startTime, startTime + audioBuffer.duration)
+            : undefined
+          // Bar 1 starts on the first click after the count-in; a take stopped before
+          // then has nothing to analyze
+          const countInClicks = countInClicksRef.current
+          const downbeatTime = countInClicks === 0 ? 0 : clickTimes?.[countInClicks]
+          if (downbeatTime === undefined) {
+            onStatusUpdate('Recording stopped during the count-in. Keep recording past it to capture a take.', 'ready')
+            finishTake()
+            return
+          }
+          onRecordingComplete(audioBuffer, {
+            deviceId: selectedDeviceId,
+            metronomeBPM: metronomeEnabled ? metronomeBPMRef.current : undefined,
+            countInClicks,
+            downbeatTime,
+            latencyOffset: latencyCalibration?.offset ?? 0,
+            clickTimes,
+            processing,
+            recorder: takeRecorder.kind
+          })
+          finishTake()
+        },
+        onError: (error) => {
+          console.error('Error capturing recording:', error)
+          onStatusUpdate('Error capturing the recording.', 'ready')
+          finishTake()
+        }
+      })
+      takeRecorderRef.current = takeRecorder
+
+      // Live feedback only - the analysis still runs on the finished take
+      liveOnsetDetectorRef.current = await createLiveOnsetDetector(context, mediaStream, (onset) => {
+        liveOnsetsRef.current.push(onset)
+      })
+
+      // Set up real-time audio analysis
       if (context) {
         const source = context.createMediaStreamSource(mediaStream)
         const analyser = context.createAnalyser()
@@ -442,6 +585,7 @@ export function AudioRecorder({
         analyser.smoothingTimeConstant = 0.8
         source.connect(analyser)
         analyserRef.current = analyser
+        setMeterAnalyser(analyser)
         
         // Set up data array for waveform
         const bufferLength = analyser.frequencyBinCount
@@ -465,18 +609,27 @@ export function AudioRecorder({
       }
 
       setIsRecording(true)
-      mediaRecorder.start(100) // Collect data every 100ms
-      onStatusUpdate('Recording... Play your guitar!', 'recording')
+      takeRecorder.start()
+      const countIn = metronomeEnabled ? countInBarsRef.current : 0
+      onStatusUpdate(
+        countIn > 0
+          ? `Recording... ${countIn} bar${countIn > 1 ? 's' : ''} count-in, then play your guitar!`
+          : 'Recording... Play your guitar!',
+        'recording'
+      )
       
     } catch (error) {
       console.error('Error accessing microphone:', error)
       onStatusUpdate('Error accessing microphone. Please ensure you have granted microphone permissions.', 'ready')
     }
-  }, [onRecordingComplete, onStatusUpdate, audioContext, drawWaveform, selectedDeviceId, metronomeEnabled])
+  }, [onRecordingComplete, onStatusUpdate, audioContext, drawWaveform, selectedDeviceId, micProcessing, metronomeEnabled, latencyCalibration, stopLevelCheck])
 
   const stopRecording = useCallback(() => {
-    if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
-      mediaRecorderRef.current.stop()
+    if (takeRecorderRef.current && takeRecorderRef.current.isRecording()) {
+      takeRecorderRef.current.stop()
+      liveOnsetDetectorRef.current?.stop()
+      liveOnsetDetectorRef.current = null
+      setMeterAnalyser(null)
       isRecordingRef.current = false
       setIsRecording(false)
       
@@ -587,6 +740,11 @@ export function AudioRecorder({
   }, [handleFileSelect])
 
 
+  // The cleanup below also runs whenever the stream changes, which would end live detection mid-take
+  useEffect(() => {
+    return () => liveOnsetDetectorRef.current?.stop()
+  }, [])
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
@@ -597,9 +755,9 @@ export function AudioRecorder({
         cancelAnimationFrame(animationIdRef.current)
       }
       // Only stop metronome on actual unmount
-      if (metronomeIntervalRef.current !== null) {
-        window.clearInterval(metronomeIntervalRef.current)
-        metronomeIntervalRef.current = null
+      if (metronomeSchedulerRef.current !== null) {
+        metronomeSchedulerRef.current.stop()
+        metronomeSchedulerRef.current = null
       }
     }
   }, [stream])
@@ -713,8 +871,78 @@ export function AudioRecorder({
                     </span>
                   </div>
                 )}
-                
 
+                {/* Browser processing for this input */}
+                <div className="flex flex-wrap items-center gap-1 mt-3">
+                  {([
+                    ['echoCancellation', 'Echo cancel'],
+                    ['noiseSuppression', 'Noise suppress'],
+                    ['autoGainControl', 'Auto gain'],
+                  ] as const).map(([key, label]) => (
+                    <button
+                      key={key}
+                      onClick={() => updateMicProcessing({ [key]: !micProcessing[key] })}
+                      disabled={isRecording}
+                      className={`h-7 px-2 rounded-md text-xs font-medium transition-colors ${
+                        micProcessing[key]
+                          ? 'bg-yellow-100 text-yellow-800 hover:bg-yellow-200'
+                          : 'bg-gray-100 text-gray-500 hover:bg-gray-200'
+                      } disabled:opacity-50 disabled:cursor-not-allowed`}
+                      title={micProcessing[key] ? `${label}: on (can smear attacks)` : `${label}: off`}
+                    >
+                      {label} {micProcessing[key] ? 'on' : 'off'}
+                    </button>
+                  ))}
+                  <button
+                    onClick={() => updateMicProcessing({ channelCount: micProcessing.channelCount === 1 ? 2 : 1 })}
+                    disabled={isRecording}
+                    className="h-7 px-2 rounded-md text-xs font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {micProcessing.channelCount === 2 ? 'Stereo' : 'Mono'}
+                  </button>
+                </div>
+
+                {/* Round-trip latency for this input */}
+                <div className="flex items-center justify-between mt-3 text-sm">
+                  <span className="text-gray-600">
+                    {latencyCalibration
+                      ? `Latency: ${Math.round(latencyCalibration.offset * 1000)}ms (±${Math.round(latencyCalibration.spread * 1000)}ms, ${latencyCalibration.method === 'tap' ? 'tap along' : 'loopback'})`
+                      : 'Latency: not calibrated'}
+                  </span>
+                  <div className="flex items-center gap-1">
+                    {latencyCalibration && (
+                      <Button variant="ghost" size="sm" onClick={handleClearLatency} disabled={isRecording}>
+                        Reset
+                      </Button>
+                    )}
+                    <LatencyCalibration
+                      deviceId={selectedDeviceId}
+                      processing={micProcessing}
+                      audioContext={audioContext}
+                      onCalibrated={setLatencyCalibration}
+                      disabled={isRecording || isLoadingDevices}
+                    />
+                  </div>
+                </div>
+
+                {/* Input level */}
+                <div className="flex items-center justify-between mt-3 text-sm">
+                  <span className="text-gray-600">Input level</span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={isCheckingLevels ? stopLevelCheck : startLevelCheck}
+                    disabled={isRecording || isLoadingDevices}
+                  >
+                    <Activity className="h-3 w-3 mr-1" />
+                    {isCheckingLevels ? 'Stop Check' : 'Check Levels'}
+                  </Button>
+                </div>
+                {meterAnalyser && (
+                  <div className="mt-2 text-left">
+                    <LevelMeter analyser={meterAnalyser} />
+                  </div>
+                )}
 
 
               </div>
@@ -726,12 +954,17 @@ export function AudioRecorder({
                     <div className={`w-2 h-2 rounded-full ${metronomeEnabled ? 'bg-green-500 animate-pulse' : 'bg-gray-300'}`} />
                     <span className="font-medium text-gray-800">Metronome</span>
                   </div>
+                  <TimeSignatureSelector
+                    value={timeSignature}
+                    onChange={onTimeSignatureChange}
+                    disabled={isRecording}
+                  />
                   <button
                     onClick={() => setMetronomeEnabled(!metronomeEnabled)}
-                    className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 ${
+                    className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed ${
                       metronomeEnabled ? 'bg-blue-600' : 'bg-gray-200'
                     }`}
-                    disabled={false}
+                    disabled={isRecording}
                   >
                     <span
                       className={`inline-block h-4 w-4 transform rounded-full bg-white shadow-sm transition-transform ${
@@ -747,7 +980,7 @@ export function AudioRecorder({
                     {/* -5 button */}
                     <button
                       onClick={() => setMetronomeBPM(Math.max(40, metronomeBPM - 5))}
-                      disabled={metronomeBPM <= 40}
+                      disabled={isRecording || metronomeBPM <= 40}
                       className="h-8 w-8 rounded-lg bg-gray-100 hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center text-sm font-medium text-gray-600"
                     >
                       -5
@@ -756,7 +989,7 @@ export function AudioRecorder({
                     {/* Fine tune buttons */}
                     <button
                       onClick={() => setMetronomeBPM(Math.max(40, metronomeBPM - 1))}
-                      disabled={metronomeBPM <= 40}
+                      disabled={isRecording || metronomeBPM <= 40}
                       className="h-8 w-8 rounded-lg bg-gray-100 hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center text-gray-600"
                     >
                       <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -774,7 +1007,7 @@ export function AudioRecorder({
                     
                     <button
                       onClick={() => setMetronomeBPM(Math.min(300, metronomeBPM + 1))}
-                      disabled={metronomeBPM >= 300}
+                      disabled={isRecording || metronomeBPM >= 300}
                       className="h-8 w-8 rounded-lg bg-gray-100 hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center text-gray-600"
                     >
                       <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -785,7 +1018,7 @@ export function AudioRecorder({
                     {/* +5 button */}
                     <button
                       onClick={() => setMetronomeBPM(Math.min(300, metronomeBPM + 5))}
-                      disabled={metronomeBPM >= 300}
+                      disabled={isRecording || metronomeBPM >= 300}
                       className="h-8 w-8 rounded-lg bg-gray-100 hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center text-sm font-medium text-gray-600"
                     >
                       +5
@@ -800,8 +1033,8 @@ export function AudioRecorder({
                       max="300"
                       value={metronomeBPM}
                       onChange={(e) => setMetronomeBPM(Number(e.target.value))}
-                      className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
-                      disabled={false}
+                      className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                      disabled={isRecording}
                       style={{
                         background: `linear-gradient(to right, rgb(59, 130, 246) 0%, rgb(59, 130, 246) ${((metronomeBPM - 40) / 260) * 100}%, rgb(229, 231, 235) ${((metronomeBPM - 40) / 260) * 100}%, rgb(229, 231, 235) 100%)`
                       }}
@@ -818,7 +1051,7 @@ export function AudioRecorder({
                       <button
                         key={bpm}
                         onClick={() => setMetronomeBPM(bpm)}
-                        disabled={false}
+                        disabled={isRecording}
                         className={`py-2 rounded-lg text-sm font-medium transition-all ${
                           metronomeBPM === bpm 
                             ? 'bg-blue-600 text-white shadow-sm' 
@@ -829,6 +1062,14 @@ export function AudioRecorder({
                       </button>
                     ))}
                   </div>
+
+                  {/* Tap tempo */}
+                  <TapTempo
+                    onTempo={setMetronomeBPM}
+                    audioContext={audioContext}
+                    deviceId={selectedDeviceId}
+                    disabled={isRecording}
+                  />
                   
                   {/* Tempo description */}
                   <div className="text-center py-2 px-3 bg-gray-50 rounded-lg">
@@ -842,28 +1083,49 @@ export function AudioRecorder({
                       {metronomeBPM >= 200 && "Presto"}
                     </div>
                     <div className="text-xs text-gray-500 mt-0.5">
-                      {metronomeEnabled ? '🟢 Beat 1 (downbeat) • 🔵 Beats 2-4' : 'Click toggle to enable'}
+                      {metronomeEnabled
+                        ? `${formatTimeSignature(timeSignature)} • 🟢 Beat 1 (downbeat) • 🔵 Beats 2-${timeSignature.numerator}`
+                        : 'Click toggle to enable'}
                     </div>
                   </div>
                   
-                  {/* Count-in Offset Toggle */}
-                  <div className="flex items-center justify-between py-2 px-3 bg-blue-50 rounded-lg">
-                    <div className="flex items-center gap-2">
-                      <span className="text-sm font-medium text-blue-800">Count-in Offset</span>
-                      <span className="text-xs text-blue-600">(-1 bar)</span>
+                  {/* Count-in */}
+                  <div className="py-2 px-3 bg-blue-50 rounded-lg space-y-2">
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium text-blue-800">Count-in</span>
+                      <div className="flex gap-1">
+                        {Array.from({ length: MAX_COUNT_IN_BARS + 1 }, (_, bars) => (
+                          <button
+                            key={bars}
+                            onClick={() => setCountInBars(bars)}
+                            disabled={isRecording || !metronomeEnabled}
+                            className={`h-7 min-w-[28px] px-2 rounded-md text-xs font-medium transition-colors ${
+                              countInBars === bars
+                                ? 'bg-blue-600 text-white'
+                                : 'bg-white text-blue-700 hover:bg-blue-100'
+                            } disabled:opacity-50 disabled:cursor-not-allowed`}
+                          >
+                            {bars === 0 ? 'Off' : `${bars} bar${bars > 1 ? 's' : ''}`}
+                          </button>
+                        ))}
+                      </div>
                     </div>
-                    <button
-                      onClick={() => setMetronomeOffset(!metronomeOffset)}
-                      className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 ${
-                        metronomeOffset ? 'bg-blue-600' : 'bg-gray-300'
-                      }`}
-                    >
-                      <span
-                        className={`inline-block h-3 w-3 transform rounded-full bg-white shadow-sm transition-transform ${
-                          metronomeOffset ? 'translate-x-5' : 'translate-x-1'
-                        }`}
-                      />
-                    </button>
+                    {countInBars > 0 && (
+                      <div className="flex items-center justify-between">
+                        <span className="text-xs text-blue-600">Count cue</span>
+                        <Select value={countInCue} onValueChange={(value) => setCountInCue(value as CountInCue)} disabled={isRecording}>
+                          <SelectTrigger className="h-7 w-40 text-xs bg-white">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="visual">Show count</SelectItem>
+                            <SelectItem value="spoken">Speak count</SelectItem>
+                            <SelectItem value="both">Show and speak</SelectItem>
+                            <SelectItem value="none">Clicks only</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
@@ -891,6 +1153,12 @@ export function AudioRecorder({
                 )}
               </Button>
 
+              {isRecording && countInBeat !== null && (
+                <div className="text-6xl font-bold text-blue-600 tabular-nums animate-pulse">
+                  {countInBeat}
+                </div>
+              )}
+
               {isRecording && (
                 <div className="mt-4">
                   <div className="inline-flex items-center gap-2 text-red-600 mb-3">
@@ -904,7 +1172,7 @@ export function AudioRecorder({
                   {/* Real-time waveform */}
                   <div className="bg-slate-50 border rounded-lg p-3">
                     <div className="text-xs text-slate-600 mb-2">
-                      Live Waveform {metronomeEnabled ? '(🟢 Downbeats • 🔵 Regular beats • Red lines = onset detection)' : '(Red lines = onset detection threshold)'}
+                      Live Waveform {metronomeEnabled ? '(🟢 Downbeats • 🔵 Regular beats • Notes: green on time, amber early, red late, in ms)' : '(Notes as they are detected)'}
                     </div>
                     <canvas
                       ref={canvasRef}
@@ -3,68 +3,108 @@
 import { useRef, useMemo, useState } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
-import { BarChart3, Music } from "lucide-react"
-import { AnalysisResult } from "./guitar-rhythm-analyzer"
+import { BarChart3, GitCompare, Music, Send } from "lucide-react"
+import { TempoMapChart } from "./tempo-map-chart"
+import { beatPositionAt, beatTimeAt, createUniformBeatTrack, type AnalysisResult } from "@/lib/analysis"
+import { cellLevel, cellsPerCount, formatTimeSignature } from "@/lib/time-signature"
+import type { QuantizeSubdivision } from "@/lib/quantize"
+import type { PracticeScore } from "@/lib/practice"
+import { compareTakes, formatCell, positionInTake, type DeltaChange } from "@/lib/take-comparison"
+
+export interface ComparedTake {
+  name: string
+  result: AnalysisResult
+}
 
 interface EnhancedRhythmGridProps {
   analysisResult: AnalysisResult | null
+  onTempoSelect?: (bpm: number) => void
+  onSendToEditor?: (subdivision: QuantizeSubdivision) => void
+  practiceScore?: PracticeScore | null
+  baseName?: string // name of the take in `analysisResult` when comparing
+  comparisons?: ComparedTake[] // other takes overlaid on this one's grid
+}
+
+// Overlay colours for compared takes, in order
+const COMPARISON_COLORS = [
+  { color: 'indigo', marker: 'bg-indigo-500', text: 'text-indigo-700' },
+  { color: 'pink', marker: 'bg-pink-500', text: 'text-pink-700' },
+  { color: 'teal', marker: 'bg-teal-500', text: 'text-teal-700' },
+  { color: 'amber', marker: 'bg-amber-500', text: 'text-amber-700' },
+]
+export const MAX_COMPARISONS = COMPARISON_COLORS.length
+
+const CHANGE_STYLES: Record<DeltaChange, { label: string; className: string }> = {
+  improved: { label: 'Improved', className: 'text-green-700' },
+  regressed: { label: 'Regressed', className: 'text-red-700' },
+  same: { label: 'Same', className: 'text-gray-500' },
+  added: { label: 'Added', className: 'text-orange-700' },
+  dropped: { label: 'Dropped', className: 'text-orange-700' },
 }
 
+const formatOffset = (offsetMs: number) => `${offsetMs >= 0 ? '+' : ''}${offsetMs.toFixed(0)}ms`
+
 type SubdivisionLevel = '16th' | '8th' | 'quarter' | 'half'
 
 interface GridLine {
   time: number
   type: 'measure' | 'beat' | 'eighth' | 'sixteenth'
-  subdivision: number // Which subdivision within the beat (0, 1, 2, 3 for 16ths)
-  beat: number // Which beat (1, 2, 3, 4)
+  subdivision: number // Which 16th within the count (0-3 in x/4, 0-1 in x/8)
+  beat: number // Which count in the bar (1..numerator)
   measure: number // Which measure
 }
 
-export function EnhancedRhythmGrid({ analysisResult }: EnhancedRhythmGridProps) {
+export function EnhancedRhythmGrid({ analysisResult, onTempoSelect, onSendToEditor, practiceScore, baseName, comparisons = [] }: EnhancedRhythmGridProps) {
   const containerRef = useRef<HTMLDivElement>(null)
   const [selectedSubdivision, setSelectedSubdivision] = useState<SubdivisionLevel>('16th')
+  const [quantizeSubdivision, setQuantizeSubdivision] = useState<QuantizeSubdivision>('16th')
 
   const gridData = useMemo(() => {
     if (!analysisResult || analysisResult.onsets.length === 0) {
       return null
     }
 
-    const { onsets, estimatedBPM, duration } = analysisResult
+    const { onsets, estimatedBPM, duration, timeSignature } = analysisResult
     const displayDuration = Math.min(duration, 8) // Show max 8 seconds for better detail
     
-    // Calculate timing
-    const beatsPerSecond = (estimatedBPM || 120) / 60
-    const secondsPerBeat = 1 / beatsPerSecond
-    const secondsPerSixteenth = secondsPerBeat / 4
+    // Beat times anchor the grid; fall back to an even grid from t=0 if none were tracked.
+    // Each tracked beat is one count of the time signature.
+    const beatsPerBar = timeSignature.numerator
+    const sixteenthsPerBeat = cellsPerCount(timeSignature)
+    const { beats, downbeatPhase } = analysisResult.beats.length >= 2
+      ? analysisResult
+      : createUniformBeatTrack(estimatedBPM || 120, duration, 0, beatsPerBar)
+    
+    // Average timing, used for labels and tooltips
+    const secondsPerBeat = 60 / (estimatedBPM || 120)
+    const beatsPerSecond = 1 / secondsPerBeat
+    
+    // Musical position in beats relative to the first downbeat (negative = pickup)
+    const positionAt = (time: number) => beatPositionAt(beats, time) - downbeatPhase
+    const timeAt = (position: number) => beatTimeAt(beats, position + downbeatPhase)
     
     // Generate all grid lines
     const gridLines: GridLine[] = []
+    const measureStarts: { measure: number; time: number }[] = []
     
-    // Calculate how many measures to show
-    const totalBeats = Math.ceil(displayDuration * beatsPerSecond)
-    const totalMeasures = Math.ceil(totalBeats / 4)
+    // Start with the (possibly partial) bar containing t=0
+    const firstMeasure = Math.floor(positionAt(0) / beatsPerBar)
+    const lastMeasure = Math.floor(positionAt(displayDuration) / beatsPerBar)
     
-    for (let measure = 0; measure < totalMeasures; measure++) {
-      for (let beat = 0; beat < 4; beat++) { // 4/4 time signature
-        for (let sixteenth = 0; sixteenth < 4; sixteenth++) {
-          const time = (measure * 4 + beat) * secondsPerBeat + sixteenth * secondsPerSixteenth
+    for (let measure = firstMeasure; measure <= lastMeasure; measure++) {
+      const measureTime = timeAt(measure * beatsPerBar)
+      if (measureTime >= 0) measureStarts.push({ measure: measure + 1, time: measureTime })
+      
+      for (let beat = 0; beat < beatsPerBar; beat++) {
+        for (let sixteenth = 0; sixteenth < sixteenthsPerBeat; sixteenth++) {
+          const time = timeAt(measure * beatsPerBar + beat + sixteenth / sixteenthsPerBeat)
           
+          if (time < 0) continue
           if (time >= displayDuration) break
           
-          let type: GridLine['type']
-          if (sixteenth === 0 && beat === 0) {
-            type = 'measure'
-          } else if (sixteenth === 0) {
-            type = 'beat'
-          } else if (sixteenth === 2) {
-            type = 'eighth'
-          } else {
-            type = 'sixteenth'
-          }
-          
           gridLines.push({
             time,
-            type,
+            type: cellLevel(timeSignature, beat * sixteenthsPerBeat + sixteenth),
             subdivision: sixteenth,
             beat: beat + 1,
             measure: measure + 1
@@ -78,14 +118,15 @@ export function EnhancedRhythmGrid({ analysisResult }: EnhancedRhythmGridProps)
     
     // Analyze timing - check if notes are on 16th grid or triplets
     const analyzedOnsets = visibleOnsets.map(onset => {
+      const position = positionAt(onset.time)
+      
       // Check 16th note grid alignment
-      const nearestSixteenth = Math.round(onset.time / secondsPerSixteenth) * secondsPerSixteenth
-      const sixteenthDeviation = Math.abs(onset.time - nearestSixteenth)
+      const sixteenthIndex = Math.round(position * sixteenthsPerBeat)
+      const sixteenthDeviation = Math.abs(onset.time - timeAt(sixteenthIndex / sixteenthsPerBeat))
       
       // Check triplet alignment (3 notes per beat)
-      const secondsPerTriplet = secondsPerBeat / 3
-      const nearestTriplet = Math.round(onset.time / secondsPerTriplet) * secondsPerTriplet
-      const tripletDeviation = Math.abs(onset.time - nearestTriplet)
+      const tripletIndex = Math.round(position * 3)
+      const tripletDeviation = Math.abs(onset.time - timeAt(tripletIndex / 3))
       
       // Threshold for "on beat" (20ms tolerance)
       const tolerance = 0.02
@@ -98,6 +139,7 @@ export function EnhancedRhythmGrid({ analysisResult }: EnhancedRhythmGridProps)
         isOnBeat: isOnSixteenth || isOnTriplet,
         isOnSixteenth,
         isOnTriplet,
+        sixteenthIndex,
         sixteenthDeviation,
         tripletDeviation,
         bestAlignment: sixteenthDeviation < tripletDeviation ? 'sixteenth' : 'triplet'
@@ -106,15 +148,35 @@ export function EnhancedRhythmGrid({ analysisResult }: EnhancedRhythmGridProps)
     
     return {
       gridLines,
+      measureStarts,
       onsets: analyzedOnsets,
       duration: displayDuration,
       beatsPerSecond,
       secondsPerBeat,
-      secondsPerSixteenth,
-      totalMeasures
+      timeSignature,
+      sixteenthsPerBeat,
+      timeAt
     }
   }, [analysisResult])
 
+  // Compared takes placed on this take's grid by musical position, so a take at
+  // another tempo still lines up bar for bar
+  const overlays = useMemo(() => {
+    if (!gridData) return []
+    return comparisons.slice(0, MAX_COMPARISONS).map(({ name, result }, layer) => ({
+      name,
+      layer,
+      times: result.onsets
+        .map(onset => gridData.timeAt(positionInTake(result, onset.time)))
+        .filter(time => time >= 0 && time <= gridData.duration)
+    }))
+  }, [gridData, comparisons])
+
+  const deltas = useMemo(() => {
+    if (!analysisResult) return []
+    return comparisons.slice(0, MAX_COMPARISONS).map(({ name, result }) => ({ name, ...compareTakes(analysisResult, result) }))
+  }, [analysisResult, comparisons])
+
   const getSubdivisionLines = (subdivision: SubdivisionLevel) => {
     if (!gridData) return []
     
@@ -130,8 +192,9 @@ export function EnhancedRhythmGrid({ analysisResult }: EnhancedRhythmGridProps)
           line.type === 'measure' || line.type === 'beat'
         )
       case 'half':
+        // Every other quarter (1, 3 in 4/4); in x/8 the group pulses are already the long notes
         return gridData.gridLines.filter(line => 
-          line.type === 'measure' || (line.type === 'beat' && (line.beat === 1 || line.beat === 3))
+          line.type === 'measure' || (line.type === 'beat' && (gridData.timeSignature.denominator === 8 || line.beat % 2 === 1))
         )
       default:
         return gridData.gridLines
@@ -145,22 +208,27 @@ export function EnhancedRhythmGrid({ analysisResult }: EnhancedRhythmGridProps)
     const pixelsPerSecond = containerWidth / gridData.duration
     const lines = getSubdivisionLines(selectedSubdivision)
 
+    // When practicing, played notes are judged against the pattern instead of the grid
+    const extraTimes = new Set(practiceScore?.extras.map(extra => extra.time))
+    const hitOffsets = new Map(practiceScore?.notes.flatMap(note => note.onsetTime !== null ? [[note.onsetTime, note.offsetMs ?? 0] as const] : []))
+    const missedNotes = practiceScore?.notes.filter(note => note.status === 'miss' && note.time <= gridData.duration) ?? []
+
     return (
       <div className="relative min-h-[300px] bg-white rounded-lg border overflow-x-auto">
         <div className="relative h-full" style={{ minWidth: `${containerWidth + 80}px` }}>
           
           {/* Measure numbers at top */}
           <div className="absolute top-0 left-0 right-0 h-8 bg-gray-50 border-b flex items-center">
-            {Array.from({ length: gridData.totalMeasures }, (_, i) => {
-              const measureTime = i * 4 * gridData.secondsPerBeat
-              const xPos = measureTime * pixelsPerSecond + 40
+            {gridData.measureStarts.map(({ measure, time }) => {
+              const xPos = time * pixelsPerSecond + 40
               return (
                 <div
-                  key={`measure-label-${i}`}
+                  key={`measure-label-${measure}`}
                   className="absolute text-sm font-bold text-gray-700"
                   style={{ left: `${xPos}px` }}
+                  title={measure < 1 ? 'Pickup before the first downbeat' : undefined}
                 >
-                  {i + 1}
+                  {measure < 1 ? 'pickup' : measure}
                 </div>
               )
             })}
@@ -173,30 +241,24 @@ export function EnhancedRhythmGrid({ analysisResult }: EnhancedRhythmGridProps)
               let label = ''
               
               if (selectedSubdivision === '16th') {
-                // 16th note labels: 1, 1e, 1+, 1a, 2, 2e, 2+, 2a, etc.
-                const subdivisionNames = ['', 'e', '+', 'a']
-                if (line.type === 'measure' || line.type === 'beat') {
-                  label = line.beat.toString()
-                } else if (line.type === 'eighth') {
-                  label = line.beat + '+'
-                } else if (line.type === 'sixteenth') {
-                  label = line.beat + subdivisionNames[line.subdivision]
-                }
+                // 16th note labels: 1, 1e, 1+, 1a, 2, 2e, 2+, 2a, etc. (1, 1+, 2, 2+ in x/8)
+                const subdivisionNames = gridData.sixteenthsPerBeat === 4 ? ['', 'e', '+', 'a'] : ['', '+']
+                label = line.beat + subdivisionNames[line.subdivision]
               } else if (selectedSubdivision === '8th') {
-                // 8th note labels: 1, 1+, 2, 2+, etc.
-                if (line.type === 'measure' || line.type === 'beat') {
+                // 8th note labels: 1, 1+, 2, 2+, etc. (every count in x/8)
+                if (line.subdivision === 0) {
                   label = line.beat.toString()
                 } else if (line.type === 'eighth') {
                   label = line.beat + '+'
                 }
               } else if (selectedSubdivision === 'quarter') {
-                // Quarter note labels: 1, 2, 3, 4
+                // Quarter note labels: 1, 2, 3, 4 (group starts in x/8)
                 if (line.type === 'measure' || line.type === 'beat') {
                   label = line.beat.toString()
                 }
               } else if (selectedSubdivision === 'half') {
                 // Half note labels: 1, 3 (strong beats)
-                if ((line.type === 'measure' || line.type === 'beat') && (line.beat === 1 || line.beat === 3)) {
+                if (line.type === 'measure' || line.type === 'beat') {
                   label = line.beat.toString()
                 }
               }
@@ -267,9 +329,16 @@ export function EnhancedRhythmGrid({ analysisResult }: EnhancedRhythmGridProps)
             // Determine colors based on timing analysis
             const isOffBeat = !onset.isOnBeat
             const isOnTriplet = onset.isOnTriplet && !onset.isOnSixteenth
+            const isExtra = extraTimes.has(onset.time)
+            const practiceOffset = hitOffsets.get(onset.time)
             
             let lineColors, markerColors, labelColor
-            if (isOffBeat) {
+            if (isExtra) {
+              // Orange for notes that aren't in the practice pattern
+              lineColors = "from-orange-300 via-orange-400 to-orange-300"
+              markerColors = "from-orange-400 to-orange-500"
+              labelColor = "text-orange-700"
+            } else if (isOffBeat) {
               // Red for off-beat notes
               lineColors = "from-red-400 via-red-500 to-red-400"
               markerColors = "from-red-400 to-red-600"
@@ -290,19 +359,12 @@ export function EnhancedRhythmGrid({ analysisResult }: EnhancedRhythmGridProps)
             const getMusicalWeight = () => {
               if (isOffBeat) return 20 // Short for off-beat notes
               
-              // Find the closest grid position to determine musical strength
-              const nearestSixteenth = Math.round(onset.time / gridData.secondsPerSixteenth) * gridData.secondsPerSixteenth
-              const beatTime = Math.floor(nearestSixteenth / gridData.secondsPerBeat) * gridData.secondsPerBeat
-              const offsetInBeat = nearestSixteenth - beatTime
-              const sixteenthPosition = Math.round(offsetInBeat / gridData.secondsPerSixteenth)
-              
               // Musical hierarchy based on subdivision strength
-              switch (sixteenthPosition % 4) {
-                case 0: return 50 // Quarter notes (1, 2, 3, 4) - strongest
-                case 2: return 40 // 8th note "+" positions (1+, 2+, 3+, 4+) - medium
-                case 1: return 30 // "e" positions (1e, 2e, 3e, 4e) - weaker
-                case 3: return 25 // "a" positions (1a, 2a, 3a, 4a) - weakest
-                default: return 30
+              switch (cellLevel(gridData.timeSignature, onset.sixteenthIndex)) {
+                case 'measure':
+                case 'beat': return 50 // Beats and group pulses - strongest
+                case 'eighth': return 40 // 8th note "+" positions, or in-group counts in x/8 - medium
+                default: return gridData.sixteenthsPerBeat === 2 || ((onset.sixteenthIndex % 4) + 4) % 4 === 1 ? 30 : 25 // "a" weakest
               }
             }
             
@@ -324,11 +386,15 @@ export function EnhancedRhythmGrid({ analysisResult }: EnhancedRhythmGridProps)
                   className={`absolute top-36 w-5 h-5 bg-gradient-to-br ${markerColors} rounded-full shadow-xl transform -translate-x-1/2 -translate-y-1/2 cursor-pointer border-2 border-white`}
                   style={{ left: `${xPos}px` }}
                   title={`Note ${onset.index + 1} at ${onset.time.toFixed(3)}s\n${
-                    isOffBeat 
-                      ? `Off-beat! Deviation: ${Math.min(onset.sixteenthDeviation, onset.tripletDeviation) * 1000}ms` 
-                      : isOnTriplet 
-                        ? `On triplet (${onset.tripletDeviation * 1000}ms deviation)` 
-                        : `On 16th grid (${onset.sixteenthDeviation * 1000}ms deviation)`
+                    isExtra
+                      ? 'Extra note - not in the practice pattern'
+                      : practiceOffset !== undefined
+                        ? `Pattern hit, ${Math.abs(practiceOffset).toFixed(0)}ms ${practiceOffset < 0 ? 'early' : 'late'}`
+                        : isOffBeat 
+                          ? `Off-beat! Deviation: ${Math.min(onset.sixteenthDeviation, onset.tripletDeviation) * 1000}ms` 
+                          : isOnTriplet 
+                            ? `On triplet (${onset.tripletDeviation * 1000}ms deviation)` 
+                            : `On 16th grid (${onset.sixteenthDeviation * 1000}ms deviation)`
                   }`}
                 />
                 
@@ -337,11 +403,36 @@ export function EnhancedRhythmGrid({ analysisResult }: EnhancedRhythmGridProps)
                   className={`absolute top-48 text-xs font-bold ${labelColor} bg-white px-1 rounded border shadow-sm transform -translate-x-1/2`}
                   style={{ left: `${xPos}px` }}
                 >
-                  {isOffBeat ? '⚠️' : isOnTriplet ? '3' : '✓'}
+                  {isExtra ? '+' : isOffBeat ? '⚠️' : isOnTriplet ? '3' : '✓'}
                 </div>
               </div>
             )
           })}
+
+          {/* Compared takes, one row each above this take's notes */}
+          {overlays.map(({ name, layer, times }) => times.map((time, index) => (
+            <div
+              key={`overlay-${layer}-${index}`}
+              className={`absolute w-3 h-3 rounded-full border border-white shadow transform -translate-x-1/2 -translate-y-1/2 ${COMPARISON_COLORS[layer].marker}`}
+              style={{ left: `${time * pixelsPerSecond + 40}px`, top: `${66 + layer * 14}px` }}
+              title={`${name}: note at ${time.toFixed(3)}s on this grid`}
+            />
+          )))}
+
+          {/* Pattern notes that were never played */}
+          {missedNotes.map(note => {
+            const xPos = note.time * pixelsPerSecond + 40
+            return (
+              <div
+                key={`missed-${note.repeat}-${note.cell}`}
+                className="absolute top-36 w-5 h-5 rounded-full border-2 border-dashed border-red-500 bg-red-50 transform -translate-x-1/2 -translate-y-1/2 flex items-center justify-center text-[10px] font-bold text-red-600"
+                style={{ left: `${xPos}px` }}
+                title={`Missed pattern note at ${note.time.toFixed(3)}s`}
+              >
+                ✗
+              </div>
+            )
+          })}
           
           {/* Time markers at bottom */}
           <div className="absolute bottom-0 left-0 right-0 h-6 border-t bg-gray-50 flex items-center">
@@ -377,9 +468,56 @@ export function EnhancedRhythmGrid({ analysisResult }: EnhancedRhythmGridProps)
           </Button>
         ))}
       </div>
+
+      {/* Quantize the take into an editable pattern */}
+      {onSendToEditor && (
+        <div className="flex gap-1 ml-auto">
+          {(['16th', 'triplet'] as QuantizeSubdivision[]).map((subdivision) => (
+            <Button
+              key={subdivision}
+              variant={quantizeSubdivision === subdivision ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => setQuantizeSubdivision(subdivision)}
+              title={`Snap notes to the ${subdivision} grid`}
+            >
+              {subdivision}
+            </Button>
+          ))}
+          <Button size="sm" onClick={() => onSendToEditor(quantizeSubdivision)}>
+            <Send className="h-4 w-4 mr-2" />
+            Send to editor
+          </Button>
+        </div>
+      )}
     </div>
   )
 
+  // Alternative tempo readings (half/double time etc.) from the audio estimate
+  const renderTempoCandidates = () => {
+    const tempo = analysisResult?.tempo
+    if (!tempo || tempo.candidates.length < 2) return null
+
+    return (
+      <div className="col-span-2 md:col-span-5 flex flex-wrap items-center justify-center gap-2 text-sm">
+        <span className="text-muted-foreground">
+          Tempo candidates ({Math.round(tempo.confidence * 100)}% confidence):
+        </span>
+        {tempo.candidates.map(candidate => (
+          <Button
+            key={`${candidate.bpm}-${candidate.relation}`}
+            variant={candidate.bpm === analysisResult?.estimatedBPM ? "default" : "outline"}
+            size="sm"
+            disabled={!onTempoSelect}
+            onClick={() => onTempoSelect?.(candidate.bpm)}
+            title={`Relative score ${(candidate.score * 100).toFixed(0)}%`}
+          >
+            {candidate.bpm} {candidate.relation !== 'primary' && candidate.relation !== 'other' ? `(${candidate.relation})` : ''}
+          </Button>
+        ))}
+      </div>
+    )
+  }
+
   const renderStats = () => {
     if (!analysisResult || analysisResult.onsets.length === 0 || !gridData) return null
 
@@ -412,8 +550,58 @@ export function EnhancedRhythmGrid({ analysisResult }: EnhancedRhythmGridProps)
         
         <div className="text-center">
           <div className="text-2xl font-bold text-purple-600">{analysisResult.estimatedBPM}</div>
-          <div className="text-sm text-muted-foreground">BPM</div>
+          <div className="text-sm text-muted-foreground">
+            BPM ({analysisResult.bpmSource}) • {formatTimeSignature(analysisResult.timeSignature)}
+          </div>
         </div>
+        
+        {renderTempoCandidates()}
+      </div>
+    )
+  }
+
+  // Note-by-note timing of each compared take against this one
+  const renderComparison = () => {
+    if (deltas.length === 0 || !analysisResult) return null
+    const base = baseName ?? 'This take'
+
+    return (
+      <div className="mt-6 space-y-4">
+        {deltas.map(({ name, deltas: rows, improved, regressed, added, dropped }, layer) => (
+          <div key={`${name}-${layer}`} className="border rounded-lg">
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-1 px-4 py-2 bg-gray-50 border-b text-sm">
+              <span className="font-medium flex items-center gap-2">
+                <GitCompare className="h-4 w-4" />
+                <span className={COMPARISON_COLORS[layer].text}>{name}</span> vs {base}
+              </span>
+              <span className="text-green-700">{improved} improved</span>
+              <span className="text-red-700">{regressed} regressed</span>
+              <span className="text-orange-700">{added} added • {dropped} dropped</span>
+            </div>
+            <div className="max-h-64 overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead className="sticky top-0 bg-white">
+                  <tr className="text-left text-muted-foreground">
+                    <th className="px-4 py-1 font-medium">Position</th>
+                    <th className="px-4 py-1 font-medium">{base}</th>
+                    <th className="px-4 py-1 font-medium">{name}</th>
+                    <th className="px-4 py-1 font-medium">Change</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(delta => (
+                    <tr key={delta.cell} className="border-t">
+                      <td className="px-4 py-1">{formatCell(analysisResult, delta.cell)}</td>
+                      <td className="px-4 py-1 tabular-nums">{delta.a ? formatOffset(delta.a.offsetMs) : '—'}</td>
+                      <td className="px-4 py-1 tabular-nums">{delta.b ? formatOffset(delta.b.offsetMs) : '—'}</td>
+                      <td className={`px-4 py-1 ${CHANGE_STYLES[delta.change].className}`}>{CHANGE_STYLES[delta.change].label}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        ))}
       </div>
     )
   }
@@ -436,6 +624,8 @@ export function EnhancedRhythmGrid({ analysisResult }: EnhancedRhythmGridProps)
               {renderControls()}
               {renderGrid()}
               {renderStats()}
+              {renderComparison()}
+              <TempoMapChart tempoMap={analysisResult.tempoMap} />
               
               <div className="mt-4 p-4 bg-blue-50 border border-blue-200 rounded-lg">
                 <h4 className="font-medium text-blue-900 mb-2 flex items-center gap-2">
@@ -450,6 +640,17 @@ export function EnhancedRhythmGrid({ analysisResult }: EnhancedRhythmGridProps)
                   <div>• <strong>🟢 Green markers (✓):</strong> Notes on 16th grid</div>
                   <div>• <strong>🔵 Blue markers (3):</strong> Notes on triplet grid</div>
                   <div>• <strong>🔴 Red markers (⚠️):</strong> Off-beat notes</div>
+                  {practiceScore && (
+                    <>
+                      <div>• <strong>🟠 Orange markers (+):</strong> Extra notes, not in the practice pattern</div>
+                      <div>• <strong>Dashed red circles (✗):</strong> Missed pattern notes</div>
+                    </>
+                  )}
+                  {overlays.map(({ name, layer }) => (
+                    <div key={`legend-${layer}`}>
+                      • <strong className={COMPARISON_COLORS[layer].text}>Small {COMPARISON_COLORS[layer].color} dots:</strong> Notes of {name}, aligned by bar and beat
+                    </div>
+                  ))}
                   <div>• <strong>Line height:</strong> Shows musical strength (quarter=tallest, 16th=shortest)</div>
                 </div>
               </div>
@@ -1,248 +1,152 @@
 "use client"
 
-import { useState, useRef, useCallback } from "react"
+import { useState, useRef, useCallback, useEffect, useMemo } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { AudioRecorder } from "./audio-recorder"
 import { WaveformVisualization } from "./waveform-visualization"
 import { EnhancedRhythmGrid } from "./enhanced-rhythm-grid"
 import { MockDataGenerator } from "./mock-data-generator"
-import { Music2 } from "lucide-react"
+import { PracticeMode } from "./practice-mode"
+import { TakeHistory } from "./take-history"
+import { AlertTriangle, CheckCircle2, Loader2, Music2 } from "lucide-react"
 import Link from "next/link"
-
-export interface OnsetData {
-  time: number
-  index: number
-}
-
-export interface AnalysisResult {
-  onsets: OnsetData[]
-  estimatedBPM: number | null
-  duration: number
-}
+import { useRouter } from "next/navigation"
+import { toast } from "sonner"
+import { SavedPattern, stashPatternDraft } from "@/lib/pattern-storage"
+import { scorePractice } from "@/lib/practice"
+import { deleteTake, generateTakeId, listTakes, loadTakeAudio, saveTake, takeAccuracy, updateTake, type StoredTake } from "@/lib/take-history"
+import { quantizeOnsets, type QuantizeSubdivision } from "@/lib/quantize"
+import { assessTake } from "@/lib/audio/levels"
+import { formatMicProcessing } from "@/lib/audio/mic-processing"
+import { countInMargin, trimCountIn, type RecordingMetadata } from "@/lib/audio/recording"
+import { DEFAULT_TIME_SIGNATURE, normalizeTimeSignature, type TimeSignature } from "@/lib/time-signature"
+import { computeTempoMap, createAnalysisWorker, createUniformBeatTrack, isAbortError, type AnalysisResult, type AnalysisWorkerClient, type BPMSource } from "@/lib/analysis"
 
 export function GuitarRhythmAnalyzer() {
   const [audioBuffer, setAudioBuffer] = useState<AudioBuffer | null>(null)
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null)
   const [isAnalyzing, setIsAnalyzing] = useState(false)
-  const [, setStatus] = useState<{message: string; type: 'recording' | 'analyzing' | 'ready'} | null>(null)
-
+  const [timeSignature, setTimeSignature] = useState<TimeSignature>(DEFAULT_TIME_SIGNATURE)
+  const [practicePattern, setPracticePattern] = useState<SavedPattern | null>(null)
+  const [status, setStatus] = useState<{message: string; type: 'recording' | 'analyzing' | 'ready'} | null>(null)
+  const [takeWarnings, setTakeWarnings] = useState<string[]>([]) // level and count-in problems with the last take
+  const [takes, setTakes] = useState<StoredTake[]>([])
+  const [currentTakeId, setCurrentTakeId] = useState<string | null>(null)
+  const [compareIds, setCompareIds] = useState<string[]>([])
+
+  const router = useRouter()
   const audioContextRef = useRef<AudioContext | null>(null)
-
-  const initAudioContext = useCallback(() => {
-    if (!audioContextRef.current) {
-      audioContextRef.current = new (window.AudioContext || (window as unknown as typeof AudioContext))()
+  const analysisWorkerRef = useRef<AnalysisWorkerClient | null>(null)
+  const analysisAbortRef = useRef<AbortController | null>(null)
+
+  // Tear down the analysis worker on unmount
+  useEffect(() => {
+    return () => {
+      analysisAbortRef.current?.abort()
+      analysisWorkerRef.current?.terminate()
     }
-    return audioContextRef.current
   }, [])
 
-  const detectOnsets = useCallback((buffer: AudioBuffer): OnsetData[] => {
-    const data = buffer.getChannelData(0)
-    const sampleRate = buffer.sampleRate
-
-    // Spectral flux with local adaptive threshold and log magnitude
-    const fftSize = 1024
-    const hopSize = 256
-
-    // Hann window
-    const window = new Float32Array(fftSize)
-    for (let i = 0; i < fftSize; i++) window[i] = 0.5 * (1 - Math.cos(2 * Math.PI * i / (fftSize - 1)))
-
-    // Windowed frames
-    const frames: Float32Array[] = []
-    for (let pos = 0; pos + fftSize <= data.length; pos += hopSize) {
-      const frame = new Float32Array(fftSize)
-      for (let i = 0; i < fftSize; i++) frame[i] = data[pos + i] * window[i]
-      frames.push(frame)
-    }
-
-    // Very small DFT to avoid dependency; log-magnitude spectrum
-    const computeSpectrum = (frame: Float32Array): Float32Array => {
-      const spectrum = new Float32Array(fftSize / 2)
-      for (let k = 0; k < fftSize / 2; k++) {
-        let real = 0, imag = 0
-        for (let n = 0; n < frame.length; n++) {
-          const angle = -2 * Math.PI * k * n / fftSize
-          real += frame[n] * Math.cos(angle)
-          imag += frame[n] * Math.sin(angle)
-        }
-        const mag = Math.sqrt(real * real + imag * imag)
-        spectrum[k] = Math.log1p(mag)
-      }
-      return spectrum
-    }
-
-    const spectra = frames.map(computeSpectrum)
-
-    // Spectral flux (half-wave rectified differences)
-    const flux: number[] = []
-    for (let i = 1; i < spectra.length; i++) {
-      let v = 0
-      const cur = spectra[i]
-      const prev = spectra[i - 1]
-      for (let b = 1; b < cur.length; b++) {
-        const d = cur[b] - prev[b]
-        if (d > 0) v += d
-      }
-      flux.push(v)
-    }
+  // Takes from earlier sessions
+  useEffect(() => {
+    listTakes()
+      .then(setTakes)
+      .catch(error => console.error('Error loading take history:', error))
+  }, [])
 
-    // Local adaptive threshold over ~0.3s
-    const win = Math.max(8, Math.floor(0.3 * sampleRate / hopSize))
-    const thr: number[] = new Array(flux.length).fill(0)
-    let sum = 0
-    let sumSq = 0
-    for (let i = 0; i < flux.length; i++) {
-      sum += flux[i]
-      sumSq += flux[i] * flux[i]
-      if (i >= win) {
-        const r = flux[i - win]
-        sum -= r
-        sumSq -= r * r
-      }
-      const n = Math.min(i + 1, win)
-      const mean = sum / n
-      const variance = Math.max(0, sumSq / n - mean * mean)
-      const std = Math.sqrt(variance)
-      thr[i] = mean + 0.6 * std
-    }
+  // Cancel any in-flight analysis (new recording, new upload or a re-analyze)
+  const cancelAnalysis = useCallback(() => {
+    analysisAbortRef.current?.abort()
+    analysisAbortRef.current = null
+  }, [])
 
-    // Peak picking with hysteresis to avoid double-hits on sustains
-    const minSepFrames = Math.floor(0.12 * sampleRate / hopSize) // 120ms
-    const picked: { frame: number; value: number }[] = []
-    const highFactor = 1.25
-    const lowFactor = 0.80
-    let armed = true
-    let last = -minSepFrames
-    for (let i = 1; i < flux.length - 1; i++) {
-      const hi = thr[i] * highFactor
-      const lo = thr[i] * lowFactor
-      if (armed) {
-        if (flux[i] > hi && flux[i] > flux[i - 1] && flux[i] > flux[i + 1]) {
-          if (i - last >= minSepFrames) {
-            picked.push({ frame: i, value: flux[i] })
-            last = i
-            armed = false
-          }
-        }
-      } else if (flux[i] < lo) {
-        armed = true
-      }
+  const initAudioContext = useCallback(() => {
+    if (!audioContextRef.current) {
+      audioContextRef.current = new (window.AudioContext || (window as unknown as typeof AudioContext))()
     }
-
-    const onsets: OnsetData[] = picked
-      .map((p, idx) => ({ time: (p.frame + 1) * hopSize / sampleRate, index: idx }))
-      .sort((a, b) => a.time - b.time)
-    return onsets
+    return audioContextRef.current
   }, [])
 
-
-  const analyzeRhythm = useCallback(async (bufferToAnalyze?: AudioBuffer, metronomeBPM?: number, offsetEnabled?: boolean) => {
+  // Resolves to the result, or null if the analysis failed; rejects with an AbortError
+  // when a newer analysis supersedes it
+  const analyzeRhythm = useCallback(async (bufferToAnalyze?: AudioBuffer, recording?: RecordingMetadata): Promise<AnalysisResult | null> => {
     const buffer = bufferToAnalyze || audioBuffer
-    if (!buffer) return
+    if (!buffer) return null
+    const metronomeBPM = recording?.metronomeBPM
+    // Actual click times of a metronome take; without them clicks are assumed every beat from t=0
+    const clickTimes = metronomeBPM && recording?.clickTimes && recording.clickTimes.length >= 2 ? recording.clickTimes : null
+    const countInClicks = recording?.countInClicks ?? 0
+    const downbeatTime = recording?.downbeatTime ?? 0
+
+    cancelAnalysis()
+    const controller = new AbortController()
+    analysisAbortRef.current = controller
 
     setIsAnalyzing(true)
     setStatus({ message: 'Analyzing rhythm pattern...', type: 'analyzing' })
 
     try {
-      // 1) raw onsets
-      let onsets = detectOnsets(buffer)
-
-      // 2) refine using local energy and BPM-informed separation (no grid assumptions)
-      {
-        const sr = buffer.sampleRate
-        const data = buffer.getChannelData(0)
-        const win = Math.max(1, Math.floor(sr * 0.020)) // 20ms
-        // local energies
-        const energies = onsets.map(o => {
-          const c = Math.floor(o.time * sr)
-          const i0 = Math.max(0, c - win)
-          const i1 = Math.min(data.length - 1, c + win)
-          let sum = 0
-          for (let i = i0; i <= i1; i++) sum += Math.abs(data[i])
-          return sum / (i1 - i0 + 1)
-        })
-        // robust threshold
-        const sorted = [...energies].sort((a, b) => a - b)
-        const med = sorted[Math.floor(sorted.length / 2)] || 0
-        const devs = sorted.map(v => Math.abs(v - med)).sort((a, b) => a - b)
-        const mad = devs[Math.floor(devs.length / 2)] || 0
-        const eThresh = med + 2 * mad
-
-        // filter weak
-        const strong: { time: number; index: number; e: number }[] = []
-        onsets.forEach((o, i) => { if (energies[i] >= eThresh) strong.push({ ...o, e: energies[i] }) })
-        if (strong.length === 0 && onsets.length > 0) {
-          // fallback: keep top 8 strongest to avoid empty result
-          const tmp = onsets.map((o, i) => ({ ...o, e: energies[i] }))
-          tmp.sort((a, b) => b.e - a.e)
-          strong.push(...tmp.slice(0, Math.min(8, tmp.length)))
-          strong.sort((a, b) => a.time - b.time)
-        }
-
-        // Merge close events using adaptive min separation
-        // Prefer robust estimate from median inter-onset interval of strong peaks
-        let minSepSec = 0.18
-        if (strong.length >= 3) {
-          const times = strong.map(s => s.time)
-          const intervals: number[] = []
-          for (let i = 1; i < times.length; i++) intervals.push(times[i] - times[i - 1])
-          intervals.sort((a, b) => a - b)
-          const medianIOI = intervals[Math.floor(intervals.length / 2)]
-          if (isFinite(medianIOI) && medianIOI > 0) {
-            minSepSec = Math.max(0.18, Math.min(0.60, 0.45 * medianIOI))
-          }
-        } else if (metronomeBPM) {
-          // Fallback to BPM-informed spacing (≈ 45% of an eighth note)
-          minSepSec = Math.max(0.18, 0.45 * (60 / (metronomeBPM * 2)))
-        }
-        const merged: { time: number; index: number; e: number }[] = []
-        for (const o of strong) {
-          if (merged.length === 0) { merged.push(o); continue }
-          const last = merged[merged.length - 1]
-          if (o.time - last.time < minSepSec) {
-            // keep stronger
-            if (o.e > last.e) merged[merged.length - 1] = o
-          } else {
-            merged.push(o)
+      if (!analysisWorkerRef.current) {
+        analysisWorkerRef.current = createAnalysisWorker()
+      }
+      // Copy the channel so the transfer doesn't detach the buffer we still display
+      const channelData = buffer.getChannelData(0).slice()
+      const { onsets, tempo, beatTrack } = await analysisWorkerRef.current.analyze(
+        channelData,
+        buffer.sampleRate,
+        { bpm: metronomeBPM, beats: { beatsPerBar: timeSignature.numerator } },
+        {
+          signal: controller.signal,
+          onProgress: (fraction) => {
+            setStatus({ message: `Analyzing rhythm pattern... ${Math.round(fraction * 100)}%`, type: 'analyzing' })
           }
         }
-        onsets = merged.map((m, i) => ({ time: m.time, index: i }))
-      }
-      
-      // ALWAYS use metronome BPM when available - ignore audio estimation
-      const finalBPM = metronomeBPM || 120 // Default to 120 if no metronome
+      )
       
-      console.log('🎵 DEBUGGING - metronomeBPM passed:', metronomeBPM, 'finalBPM:', finalBPM, 'offsetEnabled:', offsetEnabled)
+      // ALWAYS use metronome BPM when available - fall back to the audio estimate
+      const bpmSource: BPMSource = metronomeBPM ? 'metronome' : tempo ? 'estimated' : 'default'
+      const finalBPM = metronomeBPM || tempo?.bpm || 120
       
-      // Apply -1 bar offset if enabled
-      if (offsetEnabled && finalBPM) {
-        const secondsPerBeat = 60 / finalBPM
-        const oneBarInSeconds = 4 * secondsPerBeat // 4 beats = 1 bar
-        
-        console.log('🎵 Applying -1 bar offset:', oneBarInSeconds, 'seconds')
-        console.log('🎵 Original onset times:', onsets.map(o => o.time.toFixed(3)))
-        
-        // Subtract one bar from all onset times
+      console.log('🎵 DEBUGGING - metronomeBPM passed:', metronomeBPM, 'finalBPM:', finalBPM, 'countInClicks:', countInClicks)
+
+      // Clicks reach the recording late by the device's round-trip latency; move the
+      // notes back so they line up with the metronome grid
+      const latencyOffset = metronomeBPM ? recording?.latencyOffset ?? 0 : 0
+      if (latencyOffset > 0) {
         onsets.forEach(onset => {
-          onset.time -= oneBarInSeconds
+          onset.time -= latencyOffset
         })
-        
-        console.log('🎵 After offset onset times:', onsets.map(o => o.time.toFixed(3)))
-        
-        // Remove any onsets that became negative
-        const validOnsets = onsets.filter(onset => onset.time >= 0)
-        console.log('🎵 Filtered onsets - before:', onsets.length, 'after:', validOnsets.length)
-        
-        // Update onsets array
+      }
+
+      // Anything before bar 1 was played during the count-in (or before the take started)
+      const earliest = countInClicks > 0 ? downbeatTime - countInMargin(finalBPM) : 0
+      const validOnsets = onsets.filter(onset => onset.time >= earliest)
+      const discarded = onsets.length - validOnsets.length
+      if (discarded > 0) {
         onsets.length = 0
         onsets.push(...validOnsets)
       }
       
+      // Metronome takes follow the recorded clicks (bar 1 starts after the count-in clicks),
+      // or assume even clicks from bar 1; otherwise follow the tracked beats
+      const { beats, downbeatPhase } = clickTimes && clickTimes.length > countInClicks + 1
+        ? { beats: clickTimes, downbeatPhase: countInClicks }
+        : bpmSource === 'estimated' && beatTrack
+          ? beatTrack
+          : createUniformBeatTrack(finalBPM, buffer.duration, metronomeBPM ? downbeatTime : onsets[0]?.time ?? 0, timeSignature.numerator)
+      
       const result: AnalysisResult = {
         onsets,
         estimatedBPM: finalBPM,
-        duration: buffer.duration
+        bpmSource,
+        tempo,
+        beats,
+        downbeatPhase,
+        tempoMap: computeTempoMap(beats),
+        timeSignature,
+        duration: buffer.duration,
+        countInOnsets: discarded
       }
       
       setAnalysisResult(result)
@@ -250,52 +154,270 @@ export function GuitarRhythmAnalyzer() {
       if (onsets.length === 0) {
         setStatus({ message: 'No notes detected. Try recording with more attack/pick strength.', type: 'ready' })
       } else {
-        const bpmSource = metronomeBPM ? 'metronome' : 'estimated'
-        const message = `Detected ${onsets.length} notes. Tempo: ${finalBPM} BPM (${bpmSource})`
+        const confidence = bpmSource === 'estimated' && tempo ? `, ${Math.round(tempo.confidence * 100)}% confidence` : ''
+        const latency = latencyOffset > 0 ? `, ${Math.round(latencyOffset * 1000)}ms latency corrected` : ''
+        const input = recording ? `. Input: ${formatMicProcessing(recording.processing)}` : ''
+        const message = `Detected ${onsets.length} notes. Tempo: ${finalBPM} BPM (${bpmSource}${confidence})${latency}${input}`
         setStatus({ message, type: 'ready' })
       }
+      return result
     } catch (error) {
+      if (isAbortError(error)) throw error
       console.error('Error analyzing rhythm:', error)
       setStatus({ message: 'Error analyzing rhythm pattern.', type: 'ready' })
+      return null
     } finally {
-      setIsAnalyzing(false)
+      // A newer analysis owns the flag once this one has been superseded
+      if (analysisAbortRef.current === controller || !analysisAbortRef.current) {
+        analysisAbortRef.current = null
+        setIsAnalyzing(false)
+      }
+    }
+  }, [audioBuffer, cancelAnalysis, timeSignature])
+
+  // Grid accuracy of a result, plus its score when practicing a pattern
+  const accuracyOf = useCallback((result: AnalysisResult) => {
+    const score = practicePattern
+      ? scorePractice(result.onsets, practicePattern, {
+          beats: result.beats,
+          downbeatPhase: result.downbeatPhase,
+          duration: result.duration
+        }).score
+      : undefined
+    return takeAccuracy(result, score)
+  }, [practicePattern])
+
+  // Analyze a new take and add it to the history
+  const analyzeAndKeepTake = useCallback(async (buffer: AudioBuffer, source: StoredTake['source'], warnings: string[], recording?: RecordingMetadata) => {
+    let result: AnalysisResult | null
+    try {
+      result = await analyzeRhythm(buffer, recording)
+    } catch (error) {
+      // A newer take or upload replaced this one before it was analyzed; don't keep it
+      if (isAbortError(error)) return
+      throw error
+    }
+
+    const countIn = result?.countInOnsets ?? 0
+    const allWarnings = countIn > 0
+      ? [...warnings, `${countIn} note${countIn === 1 ? ' was' : 's were'} played during the count-in and left out of the take`]
+      : warnings
+
+    const id = generateTakeId()
+    const createdAt = new Date()
+    const take: StoredTake = {
+      id,
+      name: `${source === 'recording' ? 'Take' : 'Upload'} ${createdAt.toLocaleTimeString()}`,
+      createdAt: createdAt.toISOString(),
+      source,
+      duration: buffer.duration,
+      recording,
+      result,
+      accuracy: result ? accuracyOf(result) : null,
+      // Kept so it can be re-analyzed, with a note on why it has no result
+      warnings: result ? allWarnings : [...allWarnings, 'Analysis failed. Re-analyze this take to try again.']
+    }
+    setTakeWarnings(take.warnings)
+    setCurrentTakeId(result ? id : null)
+    try {
+      const evicted = await saveTake(take, buffer)
+      setTakes(prev => [take, ...prev.filter(other => !evicted.includes(other.id))])
+    } catch (error) {
+      console.error('Error saving take:', error)
+      toast.error('Could not keep this take in the session history')
     }
-  }, [audioBuffer, detectOnsets])
+  }, [analyzeRhythm, accuracyOf])
 
-  const handleRecordingComplete = useCallback(async (audioBlob: Blob, metronomeBPM?: number, offsetEnabled?: boolean) => {
+  const handleRecordingComplete = useCallback((recorded: AudioBuffer, recording: RecordingMetadata) => {
     try {
       const audioContext = initAudioContext()
-      const arrayBuffer = await audioBlob.arrayBuffer()
-      const buffer = await audioContext.decodeAudioData(arrayBuffer)
+      // The count-in isn't part of the take; bar 1 starts (almost) at t=0 from here on
+      const { buffer, recording: take } = trimCountIn(audioContext, recorded, recording)
+      const levels = assessTake(buffer)
+      // MediaRecorder only reports when it started to within a few milliseconds
+      const warnings = take.recorder === 'encoded'
+        ? [...levels.warnings, 'This browser recorded through MediaRecorder rather than raw PCM; note timing may be off by a few ms']
+        : levels.warnings
+      setTakeWarnings(warnings)
       
       setAudioBuffer(buffer)
       setStatus({ message: 'Recording complete! Analyzing rhythm...', type: 'analyzing' })
       
       // Auto-analyze immediately with metronome BPM if available
-      setTimeout(() => analyzeRhythm(buffer, metronomeBPM, offsetEnabled), 100)
+      setTimeout(() => analyzeAndKeepTake(buffer, 'recording', warnings, take), 100)
     } catch (error) {
       console.error('Error processing audio:', error)
       setStatus({ message: 'Error processing audio recording.', type: 'ready' })
     }
-  }, [initAudioContext, analyzeRhythm])
+  }, [initAudioContext, analyzeAndKeepTake])
 
   const handleFileUploaded = useCallback(async (buffer: AudioBuffer) => {
+    cancelAnalysis()
     // Ensure audio context is initialized
     initAudioContext()
     setAudioBuffer(buffer)
-    setStatus({ message: 'Audio file uploaded! Click "Analyze Rhythm" to see the pattern.', type: 'ready' })
-  }, [initAudioContext])
+    setTakeWarnings([])
+    setStatus({ message: 'Audio file uploaded! Analyzing rhythm...', type: 'analyzing' })
+
+    // No metronome for uploads - the tempo comes from the audio
+    setTimeout(() => analyzeAndKeepTake(buffer, 'upload', []), 100)
+  }, [initAudioContext, cancelAnalysis, analyzeAndKeepTake])
 
   const handleStatusUpdate = useCallback((message: string, type: 'recording' | 'analyzing' | 'ready') => {
+    if (type === 'recording') setTakeWarnings([])
     setStatus({ message, type })
     
     // Auto-clear when starting a new recording
     if (type === 'recording') {
+      cancelAnalysis()
       setAnalysisResult(null)
       setAudioBuffer(null)
+      setCurrentTakeId(null)
+    }
+  }, [cancelAnalysis])
+
+  // Switch the grid to one of the alternative tempo candidates (e.g. half or double time)
+  const handleTempoSelect = useCallback((bpm: number) => {
+    setAnalysisResult(prev => {
+      if (!prev) return prev
+      // Keep the current first downbeat and lay an even grid at the new tempo around it
+      const downbeat = prev.beats[prev.downbeatPhase] ?? 0
+      const { beats, downbeatPhase } = createUniformBeatTrack(bpm, prev.duration, downbeat, prev.timeSignature.numerator)
+      return { ...prev, estimatedBPM: bpm, bpmSource: 'manual', beats, downbeatPhase, tempoMap: computeTempoMap(beats) }
+    })
+  }, [])
+
+  // Regroup the existing beats into bars of the new meter: the current first downbeat
+  // stays a downbeat, and the first bar moves back to the earliest whole bar in the take
+  // (count-in clicks sit before it, at negative times). Beat times and the tempo map
+  // don't depend on the meter.
+  const handleTimeSignatureChange = useCallback((next: TimeSignature) => {
+    setTimeSignature(next)
+    setAnalysisResult(prev => {
+      if (!prev) return prev
+      let downbeatPhase = Math.min(prev.downbeatPhase, Math.max(0, prev.beats.length - 1))
+      while (downbeatPhase >= next.numerator && prev.beats[downbeatPhase - next.numerator] >= 0) {
+        downbeatPhase -= next.numerator
+      }
+      return { ...prev, timeSignature: next, downbeatPhase }
+    })
+  }, [])
+
+  // Quantize the take and open it in the pattern editor
+  const handleSendToEditor = useCallback((subdivision: QuantizeSubdivision) => {
+    if (!analysisResult || analysisResult.onsets.length === 0) return
+
+    const { draft, bars, dropped, merged } = quantizeOnsets(analysisResult.onsets, {
+      beats: analysisResult.beats,
+      downbeatPhase: analysisResult.downbeatPhase,
+      timeSignature: analysisResult.timeSignature,
+      bpm: analysisResult.estimatedBPM || 120,
+      subdivision,
+      maxBars: 4
+    })
+
+    if (dropped > 0) {
+      toast.warning(`Only the first ${bars} bars fit in the editor - ${dropped} later notes were left out`)
+    }
+    if (merged > 0) {
+      toast.warning(`${merged} notes too close to the one before were merged into it`)
+    }
+    stashPatternDraft({ ...draft, name: `Recorded take (${subdivision})` })
+    router.push('/grid')
+  }, [analysisResult, router])
+
+  // Practicing a saved pattern sets the metronome tempo and meter to match it
+  const handlePracticePatternChange = useCallback((pattern: SavedPattern | null) => {
+    setPracticePattern(pattern)
+    if (pattern) handleTimeSignatureChange(normalizeTimeSignature(pattern.timeSignature))
+  }, [handleTimeSignatureChange])
+
+  // Score the current take against the practice pattern
+  const practiceScore = useMemo(() => {
+    if (!practicePattern || !analysisResult) return null
+    return scorePractice(analysisResult.onsets, practicePattern, {
+      beats: analysisResult.beats,
+      downbeatPhase: analysisResult.downbeatPhase,
+      duration: analysisResult.duration
+    })
+  }, [practicePattern, analysisResult])
+
+  // Bring a stored take back into the view, as it was analyzed
+  const handleOpenTake = useCallback(async (take: StoredTake) => {
+    cancelAnalysis()
+    let buffer: AudioBuffer | null
+    try {
+      buffer = await loadTakeAudio(initAudioContext(), take.id)
+    } catch (error) {
+      console.error('Error loading take:', error)
+      toast.error(`Could not load the audio for "${take.name}"`)
+      return
+    }
+    if (!buffer) {
+      toast.error(`The audio for "${take.name}" is missing`)
+      return
+    }
+    setAudioBuffer(buffer)
+    setAnalysisResult(take.result)
+    if (take.result) setTimeSignature(take.result.timeSignature)
+    setTakeWarnings(take.warnings)
+    setCurrentTakeId(take.id)
+    setStatus({ message: `Loaded ${take.name}`, type: 'ready' })
+  }, [cancelAnalysis, initAudioContext])
+
+  // Run a stored take through the current meter and analysis again
+  const handleReanalyzeTake = useCallback(async (take: StoredTake) => {
+    cancelAnalysis()
+    let buffer: AudioBuffer | null
+    try {
+      buffer = await loadTakeAudio(initAudioContext(), take.id)
+    } catch (error) {
+      console.error('Error loading take:', error)
+      toast.error(`Could not load the audio for "${take.name}"`)
+      return
     }
+    if (!buffer) {
+      toast.error(`The audio for "${take.name}" is missing`)
+      return
+    }
+    setAudioBuffer(buffer)
+    setTakeWarnings(take.warnings)
+    setCurrentTakeId(take.id)
+    setStatus({ message: `Re-analyzing ${take.name}...`, type: 'analyzing' })
+
+    let result: AnalysisResult | null
+    try {
+      result = await analyzeRhythm(buffer, take.recording)
+    } catch (error) {
+      if (isAbortError(error)) return
+      throw error
+    }
+    if (!result) return
+    const updated: StoredTake = { ...take, result, accuracy: accuracyOf(result) }
+    setTakes(prev => prev.map(other => other.id === take.id ? updated : other))
+    updateTake(updated).catch(error => console.error('Error saving take:', error))
+  }, [cancelAnalysis, initAudioContext, analyzeRhythm, accuracyOf])
+
+  const handleRenameTake = useCallback((take: StoredTake, name: string) => {
+    const updated = { ...take, name }
+    setTakes(prev => prev.map(other => other.id === take.id ? updated : other))
+    updateTake(updated).catch(error => console.error('Error renaming take:', error))
+  }, [])
+
+  const handleDeleteTake = useCallback((take: StoredTake) => {
+    setTakes(prev => prev.filter(other => other.id !== take.id))
+    setCompareIds(prev => prev.filter(id => id !== take.id))
+    deleteTake(take.id).catch(error => console.error('Error deleting take:', error))
   }, [])
 
+  // Ticked takes other than the one on screen, overlaid on its grid
+  const comparisons = useMemo(() => takes.flatMap(take =>
+    compareIds.includes(take.id) && take.id !== currentTakeId && take.result
+      ? [{ name: take.name, result: take.result }]
+      : []
+  ), [takes, compareIds, currentTakeId])
+  const currentTakeName = takes.find(take => take.id === currentTakeId)?.name
+
   const handleMockDataGenerated = useCallback((mockAudioBuffer: AudioBuffer, mockAnalysisResult: AnalysisResult) => {
     setAudioBuffer(mockAudioBuffer)
     setAnalysisResult(mockAnalysisResult)
@@ -326,6 +448,56 @@ export function GuitarRhythmAnalyzer() {
             onStatusUpdate={handleStatusUpdate}
             isAnalyzing={isAnalyzing}
             audioContext={audioContextRef.current}
+            timeSignature={timeSignature}
+            onTimeSignatureChange={handleTimeSignatureChange}
+            targetBPM={practicePattern?.bpm}
+          />
+
+          {status && (
+            <div className={`flex items-start gap-2 p-3 rounded-lg border text-sm ${
+              status.type === 'recording'
+                ? 'bg-red-50 border-red-200 text-red-800'
+                : status.type === 'analyzing'
+                  ? 'bg-blue-50 border-blue-200 text-blue-800'
+                  : 'bg-gray-50 border-gray-200 text-gray-800'
+            }`}>
+              {status.type === 'recording' ? (
+                <div className="w-3 h-3 mt-0.5 bg-red-500 rounded-full animate-pulse flex-shrink-0" />
+              ) : status.type === 'analyzing' ? (
+                <Loader2 className="h-4 w-4 mt-0.5 animate-spin flex-shrink-0" />
+              ) : (
+                <CheckCircle2 className="h-4 w-4 mt-0.5 text-green-600 flex-shrink-0" />
+              )}
+              <div className="space-y-1">
+                <div>{status.message}</div>
+                {takeWarnings.map(warning => (
+                  <div key={warning} className="flex items-center gap-1 text-yellow-800">
+                    <AlertTriangle className="h-3 w-3 flex-shrink-0" />
+                    {warning}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <PracticeMode
+            pattern={practicePattern}
+            score={practiceScore}
+            onPatternChange={handlePracticePatternChange}
+            disabled={isAnalyzing}
+          />
+
+          <TakeHistory
+            takes={takes}
+            currentTakeId={currentTakeId}
+            compareIds={compareIds}
+            onCompareChange={setCompareIds}
+            getAudioContext={initAudioContext}
+            onOpen={handleOpenTake}
+            onReanalyze={handleReanalyzeTake}
+            onRename={handleRenameTake}
+            onDelete={handleDeleteTake}
+            disabled={isAnalyzing}
           />
 
           {!analysisResult && false && (
@@ -336,6 +508,11 @@ export function GuitarRhythmAnalyzer() {
 
           <EnhancedRhythmGrid 
             analysisResult={analysisResult}
+            onTempoSelect={handleTempoSelect}
+            onSendToEditor={handleSendToEditor}
+            practiceScore={practiceScore}
+            baseName={currentTakeName}
+            comparisons={comparisons}
           />
 
           <WaveformVisualization 
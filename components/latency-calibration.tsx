@@ -0,0 +1,257 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Gauge, Loader2 } from "lucide-react"
+import { analyzeOnsets } from "@/lib/analysis"
+import { playClick } from "@/lib/audio/click"
+import type { MicProcessing } from "@/lib/audio/mic-processing"
+import { clickTimeline, recordingConstraints } from "@/lib/audio/recording"
+import { createScheduler, type Scheduler } from "@/lib/audio/scheduler"
+import { createTakeRecorder, type TakeRecorder } from "@/lib/audio/take-recorder"
+import {
+  measureLatency,
+  saveLatencyCalibration,
+  type CalibrationMethod,
+  type LatencyCalibration,
+  type LatencyMeasurement,
+} from "@/lib/audio/latency"
+
+const CALIBRATION_BPM = 100
+const CALIBRATION_CLICKS = 12
+const LEAD_IN_CLICKS = 4 // first bar is for locking on, not measured
+const TAIL_SECONDS = 0.8 // keep recording so the last click (and a late tap) lands in the take
+
+type CalibrationPhase = 'idle' | 'running' | 'analyzing' | 'done'
+
+interface LatencyCalibrationProps {
+  deviceId: string
+  processing: MicProcessing
+  audioContext: AudioContext | null
+  onCalibrated: (calibration: LatencyCalibration) => void
+  disabled?: boolean
+}
+
+export function LatencyCalibration({ deviceId, processing, audioContext, onCalibrated, disabled }: LatencyCalibrationProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [method, setMethod] = useState<CalibrationMethod>('tap')
+  const [phase, setPhase] = useState<CalibrationPhase>('idle')
+  const [currentClick, setCurrentClick] = useState(0)
+  const [measurement, setMeasurement] = useState<LatencyMeasurement | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const schedulerRef = useRef<Scheduler | null>(null)
+  const recorderRef = useRef<TakeRecorder | null>(null)
+  const stopTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  const stopCalibration = useCallback(() => {
+    schedulerRef.current?.stop()
+    schedulerRef.current = null
+    if (stopTimerRef.current) clearTimeout(stopTimerRef.current)
+    stopTimerRef.current = null
+    if (recorderRef.current?.isRecording()) {
+      recorderRef.current.stop()
+    }
+    recorderRef.current = null
+  }, [])
+
+  // Closing the dialog mid-run abandons the measurement
+  useEffect(() => {
+    if (!isOpen) {
+      stopCalibration()
+      setPhase('idle')
+      setCurrentClick(0)
+    }
+  }, [isOpen, stopCalibration])
+
+  useEffect(() => stopCalibration, [stopCalibration])
+
+  const analyzeTake = useCallback((buffer: AudioBuffer, clickTimes: number[]) => {
+    setPhase('analyzing')
+    try {
+      const onsets = analyzeOnsets(buffer.getChannelData(0), buffer.sampleRate)
+      // Click times come from the same timeline a real take carries to the analyzer
+      const result = clickTimes.length > 0 ? measureLatency(onsets.map(onset => onset.time), clickTimes) : null
+      console.log('⏱️ Latency calibration:', { onsets: onsets.length, result })
+
+      if (!result) {
+        setError(method === 'tap'
+          ? 'Could not match enough taps to the clicks. Tap once on every click and try again.'
+          : 'Could not hear enough clicks. Turn the speakers up, move the mic closer and try again.')
+        setPhase('idle')
+        return
+      }
+      setMeasurement(result)
+      setPhase('done')
+    } catch (err) {
+      console.error('Error analyzing calibration take:', err)
+      setError('Could not analyze the calibration recording.')
+      setPhase('idle')
+    }
+  }, [method])
+
+  const startCalibration = useCallback(async () => {
+    setError(null)
+    setMeasurement(null)
+    setCurrentClick(0)
+
+    try {
+      const mediaStream = await navigator.mediaDevices.getUserMedia(recordingConstraints(deviceId, processing))
+      const context = audioContext || new (window.AudioContext || (window as unknown as typeof AudioContext))()
+      const clickContextTimes: number[] = []
+      let startTime: number | null = null
+
+      // Record exactly the way a real take is recorded so the same delays are measured
+      const recorder = await createTakeRecorder(context, mediaStream, {
+        onStart: (time) => {
+          startTime = time
+        },
+        onComplete: (buffer) => {
+          mediaStream.getTracks().forEach(track => track.stop())
+          const clickTimes = startTime !== null
+            ? clickTimeline(clickContextTimes, startTime, startTime + buffer.duration).slice(LEAD_IN_CLICKS)
+            : []
+          analyzeTake(buffer, clickTimes)
+        },
+        onError: (err) => {
+          mediaStream.getTracks().forEach(track => track.stop())
+          console.error('Error capturing calibration take:', err)
+          setError('Could not record the calibration take.')
+          setPhase('idle')
+        }
+      })
+      recorderRef.current = recorder
+
+      const scheduler = createScheduler({
+        context,
+        getStepDuration: () => 60 / CALIBRATION_BPM,
+        onStep: (step, time) => {
+          if (step >= CALIBRATION_CLICKS) return
+          playClick(context, step % 4 === 0 ? 'downbeat' : 'beat', time)
+          clickContextTimes.push(time)
+        },
+        onVisualStep: (step) => setCurrentClick(Math.min(step + 1, CALIBRATION_CLICKS))
+      })
+      schedulerRef.current = scheduler
+
+      setPhase('running')
+      recorder.start()
+      scheduler.start()
+
+      stopTimerRef.current = setTimeout(() => {
+        stopTimerRef.current = null
+        stopCalibration()
+      }, (CALIBRATION_CLICKS * 60 / CALIBRATION_BPM + TAIL_SECONDS) * 1000)
+    } catch (err) {
+      console.error('Error starting latency calibration:', err)
+      setError('Could not access the microphone.')
+      setPhase('idle')
+    }
+  }, [deviceId, processing, audioContext, analyzeTake, stopCalibration])
+
+  const handleSave = () => {
+    if (!measurement) return
+    const calibration: LatencyCalibration = {
+      offset: measurement.offset,
+      spread: measurement.spread,
+      method,
+      measuredAt: new Date().toISOString(),
+    }
+    saveLatencyCalibration(deviceId, calibration)
+    onCalibrated(calibration)
+    toast.success(`Latency set to ${Math.round(calibration.offset * 1000)}ms for this input`)
+    setIsOpen(false)
+  }
+
+  const isBusy = phase === 'running' || phase === 'analyzing'
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !isBusy && setIsOpen(open)}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled}>
+          <Gauge className="h-3 w-3 mr-1" />
+          Calibrate
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Latency Calibration</DialogTitle>
+          <DialogDescription>
+            Measures how late the metronome shows up in your recordings on this input, so takes can be lined up with the grid.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            {([
+              ['tap', 'Tap along', 'Mute the strings and strum or tap once on every click.'],
+              ['loopback', 'Loopback', 'Play the clicks through speakers the mic can hear, and stay quiet.'],
+            ] as const).map(([value, label, hint]) => (
+              <button
+                key={value}
+                onClick={() => setMethod(value)}
+                disabled={isBusy}
+                className={`p-3 rounded-lg border text-left transition-colors ${
+                  method === value ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                }`}
+              >
+                <div className="text-sm font-medium text-gray-800">{label}</div>
+                <div className="text-xs text-gray-500 mt-1">{hint}</div>
+              </button>
+            ))}
+          </div>
+
+          {phase === 'running' && (
+            <div className="text-center py-2">
+              <div className="text-3xl font-bold text-blue-600 tabular-nums">
+                {currentClick} / {CALIBRATION_CLICKS}
+              </div>
+              <div className="text-xs text-gray-500 mt-1">
+                {currentClick <= LEAD_IN_CLICKS ? 'Get ready...' : method === 'tap' ? 'Keep tapping on the clicks' : 'Listening...'}
+              </div>
+            </div>
+          )}
+
+          {phase === 'analyzing' && (
+            <div className="flex items-center justify-center gap-2 py-2 text-sm text-gray-600">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Measuring...
+            </div>
+          )}
+
+          {phase === 'done' && measurement && (
+            <div className="text-center py-2 bg-green-50 rounded-lg">
+              <div className="text-3xl font-bold text-green-700 tabular-nums">
+                {Math.round(measurement.offset * 1000)}ms
+              </div>
+              <div className="text-xs text-green-700 mt-1">
+                ±{Math.round(measurement.spread * 1000)}ms • {measurement.matched} of {measurement.total} clicks matched
+              </div>
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={startCalibration} disabled={isBusy}>
+            {phase === 'done' ? 'Measure Again' : 'Start'}
+          </Button>
+          <Button onClick={handleSave} disabled={phase !== 'done'}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,80 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { CLIP_LEVEL, MIN_PEAK_DB, readLevels, toDb } from "@/lib/audio/levels"
+
+const METER_FLOOR_DB = -60
+const PEAK_HOLD_MS = 1500
+const HOT_DB = -3 // above this there's no headroom left for a harder strum
+
+interface LevelMeterProps {
+  analyser: AnalyserNode | null
+}
+
+// Peak/RMS input meter with a latching clip light and gain advice
+export function LevelMeter({ analyser }: LevelMeterProps) {
+  const [reading, setReading] = useState({ peakDb: METER_FLOOR_DB, rmsDb: METER_FLOOR_DB, holdDb: METER_FLOOR_DB })
+  const [clipped, setClipped] = useState(false)
+  const holdRef = useRef({ db: METER_FLOOR_DB, at: 0 })
+
+  useEffect(() => {
+    setClipped(false)
+    holdRef.current = { db: METER_FLOOR_DB, at: 0 }
+    if (!analyser) return
+
+    const scratch = new Float32Array(analyser.fftSize)
+    let frameId: number
+
+    const update = () => {
+      const { peak, rms } = readLevels(analyser, scratch)
+      const peakDb = Math.max(METER_FLOOR_DB, toDb(peak))
+      const now = performance.now()
+      if (peakDb >= holdRef.current.db || now - holdRef.current.at > PEAK_HOLD_MS) {
+        holdRef.current = { db: peakDb, at: now }
+      }
+      if (peak >= CLIP_LEVEL) setClipped(true)
+      setReading({ peakDb, rmsDb: Math.max(METER_FLOOR_DB, toDb(rms)), holdDb: holdRef.current.db })
+      frameId = requestAnimationFrame(update)
+    }
+    frameId = requestAnimationFrame(update)
+
+    return () => cancelAnimationFrame(frameId)
+  }, [analyser])
+
+  const percent = (db: number) => ((db - METER_FLOOR_DB) / -METER_FLOOR_DB) * 100
+  const advice = clipped || reading.holdDb > HOT_DB
+    ? { text: 'Too hot - turn the input gain down', className: 'text-red-600' }
+    : reading.holdDb < MIN_PEAK_DB
+      ? { text: 'Too quiet - turn the input gain up', className: 'text-yellow-700' }
+      : { text: 'Good level', className: 'text-green-700' }
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1 h-3 rounded-full bg-gray-100 overflow-hidden">
+          {/* Quiet / good / hot zones */}
+          <div className="absolute inset-y-0 left-0 bg-yellow-100" style={{ width: `${percent(MIN_PEAK_DB)}%` }} />
+          <div className="absolute inset-y-0 right-0 bg-red-100" style={{ width: `${100 - percent(HOT_DB)}%` }} />
+          {/* Peak (light) and RMS (solid) */}
+          <div className="absolute inset-y-0 left-0 bg-green-300" style={{ width: `${percent(reading.peakDb)}%` }} />
+          <div className="absolute inset-y-0 left-0 bg-green-600" style={{ width: `${percent(reading.rmsDb)}%` }} />
+          {/* Peak hold */}
+          <div className="absolute inset-y-0 w-0.5 bg-gray-800" style={{ left: `${percent(reading.holdDb)}%` }} />
+        </div>
+        <button
+          onClick={() => setClipped(false)}
+          title="Clip indicator - click to reset"
+          className={`px-2 py-0.5 rounded text-xs font-bold ${clipped ? 'bg-red-600 text-white' : 'bg-gray-100 text-gray-400'}`}
+        >
+          CLIP
+        </button>
+      </div>
+      <div className="flex justify-between text-xs">
+        <span className={advice.className}>{advice.text}</span>
+        <span className="text-gray-500 tabular-nums">
+          peak {reading.holdDb.toFixed(0)} dB • rms {reading.rmsDb.toFixed(0)} dB
+        </span>
+      </div>
+    </div>
+  )
+}
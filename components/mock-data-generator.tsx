@@ -4,7 +4,8 @@ import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { TestTube, Music } from "lucide-react"
-import { OnsetData, AnalysisResult } from "./guitar-rhythm-analyzer"
+import { computeTempoMap, createUniformBeatTrack, type AnalysisResult, type OnsetData } from "@/lib/analysis"
+import { DEFAULT_TIME_SIGNATURE } from "@/lib/time-signature"
 
 interface MockDataGeneratorProps {
   onMockDataGenerated: (audioBuffer: AudioBuffer, analysisResult: AnalysisResult) => void
@@ -92,12 +93,21 @@ export function MockDataGenerator({ onMockDataGenerated }: MockDataGeneratorProp
     
     const onsets: OnsetData[] = pattern.map((beatTime, index) => ({
       time: beatTime * secondsPerBeat,
-      index
+      index,
+      strength: 1
     }))
 
+    const { beats, downbeatPhase } = createUniformBeatTrack(bpm, 4)
+
     return {
       onsets,
       estimatedBPM: bpm,
+      bpmSource: 'manual',
+      tempo: null,
+      beats,
+      downbeatPhase,
+      tempoMap: computeTempoMap(beats),
+      timeSignature: DEFAULT_TIME_SIGNATURE,
       duration: 4
     }
   }
@@ -0,0 +1,145 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Target, X } from "lucide-react"
+import { SavedPattern } from "@/lib/pattern-storage"
+import { formatTimeSignature, normalizeTimeSignature } from "@/lib/time-signature"
+import type { PracticeScore } from "@/lib/practice"
+
+interface PracticeModeProps {
+  pattern: SavedPattern | null
+  score: PracticeScore | null
+  onPatternChange: (pattern: SavedPattern | null) => void
+  disabled?: boolean
+}
+
+export function PracticeMode({ pattern, score, onPatternChange, disabled }: PracticeModeProps) {
+  const [patterns, setPatterns] = useState<SavedPattern[]>([])
+
+  // Same source as the editor's saved patterns list
+  useEffect(() => {
+    fetch('/api/patterns')
+      .then(response => response.json())
+      .then(data => {
+        if (data.patterns) setPatterns(data.patterns)
+      })
+      .catch(error => console.error('Error loading patterns for practice:', error))
+  }, [])
+
+  const renderScore = () => {
+    if (!score) return null
+
+    const bias = score.meanOffsetMs
+    const biasLabel = Math.abs(bias) < 5 ? 'on time' : bias < 0 ? 'rushing' : 'dragging'
+
+    return (
+      <div className="mt-4 space-y-3">
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+          <div className="text-center">
+            <div className="text-2xl font-bold text-purple-600">{score.score}</div>
+            <div className="text-sm text-muted-foreground">Score</div>
+          </div>
+          <div className="text-center">
+            <div className="text-2xl font-bold text-green-600">{score.hits}</div>
+            <div className="text-sm text-muted-foreground">Hits</div>
+          </div>
+          <div className="text-center">
+            <div className="text-2xl font-bold text-red-600">{score.misses}</div>
+            <div className="text-sm text-muted-foreground">Missed</div>
+          </div>
+          <div className="text-center">
+            <div className="text-2xl font-bold text-orange-500">{score.extras.length}</div>
+            <div className="text-sm text-muted-foreground">Extra</div>
+          </div>
+          <div className="text-center">
+            <div className="text-2xl font-bold text-blue-600">{score.meanAbsOffsetMs.toFixed(0)}ms</div>
+            <div className="text-sm text-muted-foreground">
+              Avg offset ({biasLabel}{biasLabel !== 'on time' ? ` ${Math.abs(bias).toFixed(0)}ms` : ''})
+            </div>
+          </div>
+        </div>
+
+        {/* Per-note timing, in pattern order */}
+        <div className="max-h-48 overflow-y-auto border rounded-lg">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 sticky top-0">
+              <tr className="text-left text-muted-foreground">
+                <th className="px-3 py-1 font-medium">Note</th>
+                <th className="px-3 py-1 font-medium">Expected</th>
+                <th className="px-3 py-1 font-medium">Played</th>
+                <th className="px-3 py-1 font-medium">Timing</th>
+              </tr>
+            </thead>
+            <tbody>
+              {score.notes.map((note, i) => (
+                <tr key={`${note.repeat}-${note.cell}`} className="border-t">
+                  <td className="px-3 py-1">{i + 1}</td>
+                  <td className="px-3 py-1 tabular-nums">{note.time.toFixed(3)}s</td>
+                  <td className="px-3 py-1 tabular-nums">{note.onsetTime !== null ? `${note.onsetTime.toFixed(3)}s` : '—'}</td>
+                  <td className="px-3 py-1">
+                    {note.offsetMs === null ? (
+                      <span className="text-red-600 font-medium">missed</span>
+                    ) : (
+                      <span className={Math.abs(note.offsetMs) < 15 ? 'text-green-700' : 'text-blue-700'}>
+                        {Math.abs(note.offsetMs).toFixed(0)}ms {note.offsetMs < 0 ? 'early' : 'late'}
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl p-4 shadow-sm">
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex items-center gap-2">
+          <Target className="h-4 w-4 text-purple-600" />
+          <span className="font-medium text-gray-800">Practice Against Pattern</span>
+        </div>
+
+        <Select
+          value={pattern?.id ?? ''}
+          onValueChange={(id) => onPatternChange(patterns.find(p => p.id === id) ?? null)}
+          disabled={disabled || patterns.length === 0}
+        >
+          <SelectTrigger className="w-64">
+            <SelectValue placeholder={patterns.length === 0 ? 'No saved patterns' : 'Choose a saved pattern...'} />
+          </SelectTrigger>
+          <SelectContent>
+            {patterns.map(p => (
+              <SelectItem key={p.id} value={p.id}>
+                {p.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {pattern && (
+          <>
+            <Badge variant="secondary">{pattern.bpm} BPM</Badge>
+            <Badge variant="secondary">{formatTimeSignature(normalizeTimeSignature(pattern.timeSignature))}</Badge>
+            <Button variant="ghost" size="sm" onClick={() => onPatternChange(null)} disabled={disabled}>
+              <X className="h-4 w-4" />
+            </Button>
+          </>
+        )}
+      </div>
+
+      {pattern && !score && (
+        <p className="text-sm text-muted-foreground mt-2">
+          Record along with the metronome - the tempo and meter are set from the pattern.
+        </p>
+      )}
+
+      {renderScore()}
+    </div>
+  )
+}
@@ -4,7 +4,7 @@ import { useRef, useMemo } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { BarChart3 } from "lucide-react"
-import { AnalysisResult } from "./guitar-rhythm-analyzer"
+import type { AnalysisResult } from "@/lib/analysis"
 
 interface RhythmGridProps {
   analysisResult: AnalysisResult | null
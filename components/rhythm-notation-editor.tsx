@@ -1,15 +1,108 @@
 "use client"
 
-import { useState, useRef, useEffect } from "react"
+import { useState, useRef, useEffect, type PointerEvent as ReactPointerEvent } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
-import { Play, Pause, RotateCcw, Music, Home, Copy, Repeat, GripVertical } from "lucide-react"
+import { Play, Pause, RotateCcw, Music, Home, Copy, Repeat, GripVertical, FileMusic } from "lucide-react"
 import Link from "next/link"
 import { SavedPatternsManager } from "@/components/saved-patterns-manager"
-import { SavedPattern } from "@/lib/pattern-storage"
+import {
+  SavedPattern,
+  takePatternDraft,
+  type NoteArticulation,
+  type NoteDuration,
+  type PatternTrack,
+  type TrackMix,
+  type TrackSound
+} from "@/lib/pattern-storage"
+import { DURATION_CELLS, DURATION_LABELS, NOTE_DURATIONS, durationCells, soundingNotes } from "@/lib/durations"
+import { ARTICULATIONS, articulationGlyphs, noteVoicing, toggleArticulation, type ArticulationKind } from "@/lib/articulations"
+import { DEFAULT_VELOCITY, DYNAMICS, MAX_VELOCITY, clampVelocity, dynamicMark, rampVelocities, velocityGain } from "@/lib/dynamics"
+import { downloadMidi } from "@/lib/midi-export"
+import { MAX_TRACKS, TRACK_SOUNDS, compactMix, compactTrack, createTrack, isAudible, mapTrackCells, mixVolume, trackSoundOption } from "@/lib/tracks"
+import { createDrumSamples } from "@/lib/audio/drum-samples"
+import { createScheduler, type Scheduler } from "@/lib/audio/scheduler"
+import { TimeSignatureSelector } from "@/components/time-signature-selector"
+import { TapTempo } from "@/components/tap-tempo"
+import {
+  DEFAULT_SWING,
+  MAX_SWING,
+  cellPlaces,
+  cellPosition,
+  type CellPlace,
+  compactSubdivisions,
+  countStarts,
+  fillSubdivisions,
+  isStraightCount,
+  remapCells,
+  subdivisionOptions
+} from "@/lib/subdivision"
+import {
+  DEFAULT_TIME_SIGNATURE,
+  cellLevel,
+  cellsPerBar,
+  cellsPerCount,
+  countAccent,
+  formatTimeSignature,
+  normalizeTimeSignature,
+  resizeBars,
+  type CountAccent,
+  type TimeSignature
+} from "@/lib/time-signature"
 
+const MAX_BARS = 4
 
-type NoteDuration = '16th' | '8th' | 'quarter'
+// Note colours by duration; dotted values share their base colour a shade darker
+const DURATION_COLORS: Record<NoteDuration, string> = {
+  '16th': 'bg-blue-500',
+  '8th': 'bg-green-500',
+  'dotted-8th': 'bg-green-700',
+  'quarter': 'bg-red-500',
+  'dotted-quarter': 'bg-red-700',
+  'half': 'bg-purple-500',
+  'dotted-half': 'bg-purple-700',
+  'whole': 'bg-pink-500'
+}
+
+interface PatternCells {
+  pattern: boolean[]
+  noteTypes: NoteDuration[]
+  rests: boolean[]
+  ties: boolean[]
+  articulations: (NoteArticulation | null)[]
+  velocities: number[]
+}
+
+// What the playback scheduler reads on every step
+interface LivePlayback {
+  tracks: PatternTrack[]
+  mainMix: TrackMix
+  noteLengths: Map<number, number> // cells each struck main-track note sounds for
+  articulations: (NoteArticulation | null)[]
+  velocities: number[]
+  positions: number[] // counts from the loop start to each cell
+  secondsPerCount: number
+}
+
+// Longest value up to `duration` that can start at `index`: longer values only cover
+// straight cells and stop at the end of the pattern; tuplet cells hold one cell each
+function fitDuration(timeSignature: TimeSignature, places: CellPlace[], size: number, index: number, duration: NoteDuration): NoteDuration {
+  const fits = (candidate: NoteDuration) => {
+    for (let i = 0; i < DURATION_CELLS[candidate]; i++) {
+      const place = places[index + i]
+      if (index + i >= size || !place || !isStraightCount(timeSignature, place.cells)) return false
+    }
+    return true
+  }
+  return [...NOTE_DURATIONS].reverse().find(candidate => DURATION_CELLS[candidate] <= DURATION_CELLS[duration] && fits(candidate)) ?? '16th'
+}
+
+// Counting syllables for the cells after the count number in tuplet counts
+const TUPLET_SYLLABLES: Record<number, string[]> = {
+  3: ['', 'trip', 'let'],
+  5: ['', 'ta', 'ka', 'di', 'mi'],
+  6: ['', 'la', 'li', '&', 'la', 'li']
+}
 
 export function RhythmNotationEditor() {
   const [bpm, setBpm] = useState(120)
@@ -17,16 +110,62 @@ export function RhythmNotationEditor() {
   const [currentPosition, setCurrentPosition] = useState(-1)
   const [pattern, setPattern] = useState<boolean[]>(new Array(64).fill(false))
   const [noteTypes, setNoteTypes] = useState<NoteDuration[]>(new Array(64).fill('16th'))
+  const [rests, setRests] = useState<boolean[]>(new Array(64).fill(false))
+  const [ties, setTies] = useState<boolean[]>(new Array(64).fill(false))
+  const [newNoteDuration, setNewNoteDuration] = useState<NoteDuration>('16th')
+  const [restMode, setRestMode] = useState(false)
+  const [articulations, setArticulations] = useState<(NoteArticulation | null)[]>(new Array(64).fill(null))
+  const [articulationTool, setArticulationTool] = useState<ArticulationKind | null>(null)
+  const [velocities, setVelocities] = useState<number[]>(new Array(64).fill(DEFAULT_VELOCITY))
+  const [velocitySelection, setVelocitySelection] = useState<{ from: number; to: number } | null>(null)
+  const [rampLow, setRampLow] = useState(49) // p
+  const [rampHigh, setRampHigh] = useState(96) // f
+  const [tracks, setTracks] = useState<PatternTrack[]>([])
+  const [mainMix, setMainMix] = useState<TrackMix>({})
+  const [activeTrackId, setActiveTrackId] = useState<string | null>(null) // null = the main (strum) track
+  const [barScope, setBarScope] = useState<'track' | 'all'>('all') // what bar copy and drag move
   const [fourBarMode, setFourBarMode] = useState(false)
+  const [timeSignature, setTimeSignature] = useState<TimeSignature>(DEFAULT_TIME_SIGNATURE)
+  const [subdivisions, setSubdivisions] = useState<number[]>(() => fillSubdivisions(DEFAULT_TIME_SIGNATURE, MAX_BARS * DEFAULT_TIME_SIGNATURE.numerator))
+  const [swing, setSwing] = useState(DEFAULT_SWING)
   const [draggedBar, setDraggedBar] = useState<number | null>(null)
   const [currentPatternId, setCurrentPatternId] = useState<string | null>(null)
   const [currentPatternName, setCurrentPatternName] = useState<string | null>(null)
   const [originalPatternName, setOriginalPatternName] = useState<string | null>(null)
   
   const audioContextRef = useRef<AudioContext | null>(null)
-  const intervalRef = useRef<NodeJS.Timeout | null>(null)
+  const schedulerRef = useRef<Scheduler | null>(null)
   const currentIndexRef = useRef(0)
   const clapBufferRef = useRef<AudioBuffer | null>(null)
+  const drumSamplesRef = useRef<ReturnType<typeof createDrumSamples> | null>(null)
+  const playbackRef = useRef<LivePlayback>({ tracks: [], mainMix: {}, noteLengths: new Map(), articulations: [], velocities: [], positions: [], secondsPerCount: 0.5 })
+  const selectionAnchorRef = useRef<number | null>(null) // where a velocity lane selection drag began
+
+  const barCells = cellsPerBar(timeSignature)
+  const barCount = fourBarMode ? 4 : 2
+  // Cells vary per count once tuplets are in; `starts` gives the first cell of each count
+  const countsPerBar = timeSignature.numerator
+  const starts = countStarts(subdivisions)
+  const places = cellPlaces(subdivisions)
+  const totalCells = starts[barCount * countsPerBar]
+  const isStraightCell = (index: number) => !!places[index] && isStraightCount(timeSignature, places[index].cells)
+  const activeTrack = tracks.find(track => track.id === activeTrackId) ?? null
+  // The velocity lane and ramps work on whichever track the grid is editing
+  const laneHits = activeTrack ? activeTrack.pattern : pattern
+  const laneVelocities = activeTrack ? activeTrack.velocities ?? [] : velocities
+
+  // Pad a per-cell array out to the cells on screen
+  const padCells = <T,>(values: T[], fill: T) =>
+    values.length >= totalCells ? [...values] : [...values, ...new Array<T>(totalCells - values.length).fill(fill)]
+  // Exactly the cells on screen, which is what playback, MIDI export and saving cover
+  const shownCells = <T,>(values: T[], fill: T) => padCells(values, fill).slice(0, totalCells)
+
+  // Edits to a loaded pattern show in its name until it's saved
+  const markModified = () => {
+    if (originalPatternName) {
+      setCurrentPatternName(`${originalPatternName} (modified)`)
+    }
+  }
 
   // Initialize audio context and load clap sound
   useEffect(() => {
@@ -41,113 +180,432 @@ export function RhythmNotationEditor() {
           clapBufferRef.current = buffer
         })
         .catch(error => console.error('Error loading clap sound:', error))
+      drumSamplesRef.current = createDrumSamples(audioContextRef.current)
     }
     return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current)
-      }
+      schedulerRef.current?.stop()
+    }
+  }, [])
+
+  // Playback reads the notes, drum tracks, mix, tempo and swing from here, so edits made
+  // mid-loop are heard on the next pass
+  useEffect(() => {
+    playbackRef.current = {
+      tracks,
+      mainMix,
+      noteLengths: new Map(
+        soundingNotes(pattern.slice(0, totalCells), cell => isStraightCell(cell) ? durationCells(noteTypes[cell]) : 1, ties)
+          .map(note => [note.cell, note.cells] as [number, number])
+      ),
+      articulations,
+      velocities,
+      positions: places
+        .slice(0, totalCells)
+        .map(place => cellPosition(place, isStraightCount(timeSignature, place.cells), swing)),
+      secondsPerCount: 60 / bpm // BPM counts the denominator note
+    }
+  })
+
+  // A selection drag in the velocity lane ends wherever the pointer is released
+  useEffect(() => {
+    const endSelection = () => {
+      selectionAnchorRef.current = null
     }
+    window.addEventListener('pointerup', endSelection)
+    return () => window.removeEventListener('pointerup', endSelection)
+  }, [])
+
+  // Pick up a pattern sent over from the analyzer ("Send to editor")
+  useEffect(() => {
+    const draft = takePatternDraft()
+    if (!draft) return
+    const draftTimeSignature = normalizeTimeSignature(draft.timeSignature)
+    const draftSubdivisions = fillSubdivisions(draftTimeSignature, MAX_BARS * draftTimeSignature.numerator, draft.subdivisions)
+    setTimeSignature(draftTimeSignature)
+    setSubdivisions(draftSubdivisions)
+    setSwing(draft.swing ?? DEFAULT_SWING)
+    setPattern(draft.pattern)
+    setNoteTypes(draft.durations)
+    setRests(draft.rests ?? new Array(draft.pattern.length).fill(false))
+    setTies(draft.ties ?? new Array(draft.pattern.length).fill(false))
+    setArticulations(draft.articulations ?? new Array(draft.pattern.length).fill(null))
+    setVelocities(draft.velocities ?? new Array(draft.pattern.length).fill(DEFAULT_VELOCITY))
+    setTracks(draft.tracks ?? [])
+    setMainMix(draft.mainMix ?? {})
+    setActiveTrackId(null)
+    setBpm(draft.bpm)
+    setFourBarMode(draft.pattern.length > countStarts(draftSubdivisions)[2 * draftTimeSignature.numerator])
+    setCurrentPatternId(null)
+    setCurrentPatternName(draft.name ?? null)
+    setOriginalPatternName(null)
   }, [])
 
+  // Set every per-cell array at once, shortening any note or rest that no longer fits
+  // its cells in `layout` (subdivisions of the same counts, or of a new meter)
+  const setCells = (cells: PatternCells, layout = subdivisions, layoutTimeSignature = timeSignature) => {
+    const layoutPlaces = cellPlaces(layout)
+    const size = countStarts(layout)[layout.length]
+    setPattern(cells.pattern)
+    setRests(cells.rests)
+    setTies(cells.ties)
+    setArticulations(cells.articulations)
+    setVelocities(cells.velocities)
+    setNoteTypes(cells.noteTypes.map((duration, index) =>
+      cells.pattern[index] || cells.rests[index]
+        ? fitDuration(layoutTimeSignature, layoutPlaces, size, index, duration ?? '16th')
+        : duration
+    ))
+  }
+
+  // Put a note, a rest or nothing at `index`; a longer value clears the cells it covers.
+  // A note keeps the tie, articulation and velocity passed in.
+  const writeCell = (
+    index: number,
+    kind: 'note' | 'rest' | null,
+    duration: NoteDuration = '16th',
+    carried: { tied?: boolean; articulation?: NoteArticulation | null; velocity?: number } = {}
+  ) => {
+    const next: PatternCells = {
+      pattern: padCells(pattern, false),
+      noteTypes: padCells<NoteDuration>(noteTypes, '16th'),
+      rests: padCells(rests, false),
+      ties: padCells(ties, false),
+      articulations: padCells<NoteArticulation | null>(articulations, null),
+      velocities: padCells(velocities, DEFAULT_VELOCITY)
+    }
+    const span = kind && isStraightCell(index) ? DURATION_CELLS[duration] : 1
+    for (let i = 0; i < span; i++) {
+      next.pattern[index + i] = false
+      next.rests[index + i] = false
+      next.ties[index + i] = false
+      next.articulations[index + i] = null
+      next.velocities[index + i] = DEFAULT_VELOCITY
+      next.noteTypes[index + i] = '16th'
+    }
+    next.pattern[index] = kind === 'note'
+    next.rests[index] = kind === 'rest'
+    next.ties[index] = kind === 'note' && !!carried.tied
+    next.articulations[index] = kind === 'note' ? carried.articulation ?? null : null
+    next.velocities[index] = kind === 'note' ? carried.velocity ?? DEFAULT_VELOCITY : DEFAULT_VELOCITY
+    next.noteTypes[index] = kind ? duration : '16th'
+    setCells(next)
+
+    markModified()
+  }
+
+  const updateTrack = (id: string, edit: (track: PatternTrack) => PatternTrack) => {
+    setTracks(prev => prev.map(track => track.id === id ? edit(track) : track))
+  }
+
+  // Empty cells take a note (or rest) of the chosen length, or the longest that fits;
+  // with an articulation tool picked they take a note marked with it. Drum tracks just
+  // take one-cell hits.
   const toggleNote = (index: number) => {
-    setPattern(prev => {
-      const newPattern = [...prev]
-      newPattern[index] = !newPattern[index]
-      return newPattern
-    })
-    
-    // When removing a note, reset its duration to 16th for next time
-    if (pattern[index] === true) { // If we're turning OFF a note
-      setNoteTypes(prev => {
-        const newTypes = [...prev]
-        newTypes[index] = '16th'
-        return newTypes
+    if (activeTrack) {
+      updateTrack(activeTrack.id, track => {
+        const hits = padCells(track.pattern, false)
+        hits[index] = !hits[index]
+        const trackVelocities = track.velocities && padCells(track.velocities, DEFAULT_VELOCITY)
+        if (trackVelocities) trackVelocities[index] = DEFAULT_VELOCITY
+        return { ...track, pattern: hits, velocities: trackVelocities }
       })
+      markModified()
+      return
     }
-    
-    // Mark pattern as modified when making changes
-    if (originalPatternName) {
-      setCurrentPatternName(`${originalPatternName} (modified)`)
+    const duration = fitDuration(timeSignature, places, totalCells, index, newNoteDuration)
+    if (pattern[index] || rests[index]) {
+      writeCell(index, null)
+    } else if (articulationTool) {
+      writeCell(index, 'note', duration, { articulation: toggleArticulation(null, articulationTool) })
+    } else {
+      writeCell(index, restMode ? 'rest' : 'note', duration)
     }
   }
 
   const changeNoteType = (index: number, newType: NoteDuration) => {
-    setNoteTypes(prev => {
-      const newTypes = [...prev]
-      newTypes[index] = newType
-      return newTypes
+    writeCell(index, rests[index] ? 'rest' : 'note', newType, { tied: ties[index], articulation: articulations[index], velocity: velocities[index] })
+  }
+
+  const toggleNoteArticulation = (index: number, kind: ArticulationKind) => {
+    setArticulations(prev => {
+      const next = [...prev]
+      next[index] = toggleArticulation(prev[index], kind)
+      return next
     })
-    
-    // Clear patterns in cells that will be occupied by longer notes
-    if (newType === '8th' || newType === 'quarter') {
-      setPattern(prev => {
-        const newPattern = [...prev]
-        const span = newType === 'quarter' ? 4 : 2
-        const totalCells = fourBarMode ? 64 : 32
-        for (let i = 1; i < span; i++) {
-          if (index + i < totalCells) {
-            newPattern[index + i] = false
-          }
-        }
-        return newPattern
+    markModified()
+  }
+
+  // Next longer value that fits here, wrapping round to a 16th
+  const nextNoteType = (index: number, current: NoteDuration) => {
+    const longer = NOTE_DURATIONS.slice(NOTE_DURATIONS.indexOf(current) + 1)
+      .find(candidate => fitDuration(timeSignature, places, totalCells, index, candidate) === candidate)
+    return longer ?? '16th'
+  }
+
+  // Velocity lane: dragging a note's bar sets its velocity (top of the lane is fff);
+  // dragging from an empty cell, or with Shift held, selects cells for the ramp tools
+  const editLaneVelocities = (edit: (values: number[]) => number[]) => {
+    if (activeTrack) {
+      updateTrack(activeTrack.id, track => ({ ...track, velocities: edit(padCells(track.velocities ?? [], DEFAULT_VELOCITY)) }))
+    } else {
+      setVelocities(prev => edit(prev))
+    }
+  }
+
+  const setVelocityFromPointer = (index: number, event: ReactPointerEvent<HTMLElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect()
+    const velocity = clampVelocity((1 - (event.clientY - rect.top) / rect.height) * MAX_VELOCITY)
+    editLaneVelocities(values => {
+      const next = [...values]
+      next[index] = velocity
+      return next
+    })
+  }
+
+  const handleVelocityPointerDown = (index: number, event: ReactPointerEvent<HTMLElement>) => {
+    if (laneHits[index] && !event.shiftKey) {
+      event.currentTarget.setPointerCapture(event.pointerId)
+      setVelocityFromPointer(index, event)
+      markModified()
+    } else {
+      selectionAnchorRef.current = index
+      setVelocitySelection({ from: index, to: index })
+    }
+  }
+
+  const handleVelocityPointerEnter = (index: number) => {
+    const anchor = selectionAnchorRef.current
+    if (anchor === null) return
+    setVelocitySelection({ from: Math.min(anchor, index), to: Math.max(anchor, index) })
+  }
+
+  // Crescendo or decrescendo between the two ramp marks, across the selected notes
+  // (every note when nothing is selected)
+  const applyRamp = (rising: boolean) => {
+    const { from, to } = velocitySelection ?? { from: 0, to: totalCells - 1 }
+    const cells = laneHits
+      .map((on, index) => on && index >= from && index <= to && index < totalCells ? index : -1)
+      .filter(index => index >= 0)
+    if (cells.length === 0) return
+    const low = Math.min(rampLow, rampHigh)
+    const high = Math.max(rampLow, rampHigh)
+    editLaneVelocities(values => rampVelocities(values, cells, rising ? low : high, rising ? high : low))
+    markModified()
+  }
+
+  // Exports what playback would sound: muted tracks, and unsoloed ones while any track
+  // is soloed, are left out
+  const exportMidi = () => {
+    const anySolo = !!mainMix.solo || tracks.some(track => track.solo)
+    const mainAudible = isAudible(mainMix, anySolo)
+    downloadMidi({
+      name: currentPatternName ?? 'Pattern',
+      bpm,
+      pattern: shownCells(pattern, false).map(on => on && mainAudible),
+      durations: shownCells<NoteDuration>(noteTypes, '16th'),
+      timeSignature,
+      subdivisions: compactSubdivisions(timeSignature, subdivisions, totalCells),
+      swing,
+      ties: shownCells(ties, false),
+      articulations: shownCells<NoteArticulation | null>(articulations, null),
+      velocities: shownCells(velocities, DEFAULT_VELOCITY),
+      tracks: tracks.filter(track => isAudible(track, anySolo)).map(track => compactTrack(track, totalCells))
+    })
+  }
+
+  // The grid, palette and velocity lane follow the selected track
+  const selectTrack = (id: string | null) => {
+    setActiveTrackId(id)
+    setVelocitySelection(null)
+  }
+
+  const addTrack = (sound: TrackSound) => {
+    const track = createTrack(sound, totalCells, tracks)
+    setTracks([...tracks, track])
+    selectTrack(track.id)
+    markModified()
+  }
+
+  const removeTrack = (id: string) => {
+    setTracks(prev => prev.filter(track => track.id !== id))
+    if (activeTrackId === id) selectTrack(null)
+    markModified()
+  }
+
+  const toggleTie = (index: number) => {
+    setTies(prev => {
+      const newTies = [...prev]
+      newTies[index] = !newTies[index]
+      return newTies
+    })
+    markModified()
+  }
+
+  // Move the values of every `filled` cell to a new layout of the same counts; `targets`
+  // maps old cells to new ones
+  const cellMover = (filled: (index: number) => boolean, targets: (number | null)[], size: number) =>
+    <T,>(values: T[], fill: T) => {
+      const moved = new Array<T>(size).fill(fill)
+      targets.forEach((target, index) => {
+        if (target === null || target >= size || !filled(index)) return
+        if (values[index] !== undefined) moved[target] = values[index]
       })
+      return moved
     }
-    
-    // Mark pattern as modified when making changes
-    if (originalPatternName) {
-      setCurrentPatternName(`${originalPatternName} (modified)`)
+
+  // Move every note and rest of the main track; values moved into a tuplet count become
+  // single cells
+  const moveCells = (targets: (number | null)[], size: number): PatternCells => {
+    const move = cellMover(index => pattern[index] || !!rests[index], targets, size)
+    return {
+      pattern: move(pattern, false),
+      noteTypes: move<NoteDuration>(noteTypes, '16th'),
+      rests: move(rests, false),
+      ties: move(ties, false),
+      articulations: move<NoteArticulation | null>(articulations, null),
+      velocities: move(velocities, DEFAULT_VELOCITY)
     }
   }
 
+  // Split one count differently, moving its notes to the nearest new cell
+  const changeCountSubdivision = (count: number, cells: number) => {
+    stopPlayback()
+    const next = [...subdivisions]
+    next[count] = cells
+    const targets = remapCells(subdivisions, next)
+    // Keep as many counts as each track's cells reached
+    const sizeFor = (cells: number) => {
+      const coveredCounts = starts.findIndex(start => start >= cells)
+      return countStarts(next)[coveredCounts < 0 ? next.length : coveredCounts]
+    }
+
+    setSubdivisions(next)
+    setCells(moveCells(targets, sizeFor(pattern.length)), next)
+    setTracks(prev => prev.map(track =>
+      mapTrackCells(track, cellMover(index => !!track.pattern[index], targets, sizeFor(track.pattern.length)))
+    ))
+    markModified()
+  }
+
+  const changeSwing = (value: number) => {
+    setSwing(value)
+    markModified()
+  }
+
   const clearPattern = () => {
-    const size = fourBarMode ? 64 : 32
+    const size = barCount * barCells
     setPattern(new Array(size).fill(false))
     setNoteTypes(new Array(size).fill('16th'))
+    setRests(new Array(size).fill(false))
+    setTies(new Array(size).fill(false))
+    setArticulations(new Array(size).fill(null))
+    setVelocities(new Array(size).fill(DEFAULT_VELOCITY))
+    setVelocitySelection(null)
+    // Drum tracks stay set up, without their hits
+    setTracks(prev => prev.map(track => ({ ...track, pattern: new Array(size).fill(false), velocities: undefined })))
+    setSubdivisions(fillSubdivisions(timeSignature, MAX_BARS * countsPerBar))
     setCurrentPatternId(null)
     setCurrentPatternName(null)
     setOriginalPatternName(null)
     stopPlayback()
   }
 
-  const copyFirstBarToSecond = () => {
-    setPattern(prev => {
-      const newPattern = [...prev]
-      // Copy notes from positions 0-15 to positions 16-31
-      for (let i = 0; i < 16; i++) {
-        newPattern[i + 16] = newPattern[i]
-      }
-      return newPattern
-    })
-    
-    setNoteTypes(prev => {
-      const newTypes = [...prev]
-      // Copy note types from positions 0-15 to positions 16-31
-      for (let i = 0; i < 16; i++) {
-        newTypes[i + 16] = newTypes[i]
-      }
-      return newTypes
-    })
+  // Bars can hold different numbers of cells, so copying every track replaces the target
+  // bar as a whole, subdivisions included. One track alone can't change a bar's
+  // subdivisions (the other tracks share them), so its notes move to the nearest cells
+  // of the target bar instead.
+  const copyBar = (fromBar: number, toBar: number) => {
+    const fromStart = starts[fromBar * countsPerBar]
+    const fromEnd = starts[(fromBar + 1) * countsPerBar]
+    const toStart = starts[toBar * countsPerBar]
+    const toEnd = starts[(toBar + 1) * countsPerBar]
+    const pad = <T,>(values: T[], fill: T) => {
+      const length = Math.max(fromEnd, toEnd)
+      return values.length >= length ? values : [...values, ...new Array<T>(length - values.length).fill(fill)]
+    }
+    const replaceBar = <T,>(values: T[], fill: T) => {
+      const padded = pad(values, fill)
+      return [...padded.slice(0, toStart), ...padded.slice(fromStart, fromEnd), ...padded.slice(toEnd)]
+    }
+    const barTargets = remapCells(
+      subdivisions.slice(fromBar * countsPerBar, (fromBar + 1) * countsPerBar),
+      subdivisions.slice(toBar * countsPerBar, (toBar + 1) * countsPerBar)
+    )
+    const copyInto = (filled: (index: number) => boolean) => <T,>(values: T[], fill: T) => {
+      const padded = pad(values, fill)
+      const copied = [...padded.slice(0, toStart), ...new Array<T>(toEnd - toStart).fill(fill), ...padded.slice(toEnd)]
+      barTargets.forEach((target, offset) => {
+        if (target !== null && filled(fromStart + offset)) copied[toStart + target] = padded[fromStart + offset]
+      })
+      return copied
+    }
+
+    // Without drum tracks there's only the one track to copy
+    const scope = tracks.length > 0 ? barScope : 'all'
+    if (scope === 'track' && activeTrack) {
+      updateTrack(activeTrack.id, track => mapTrackCells(track, copyInto(index => !!track.pattern[index])))
+    } else if (scope === 'track') {
+      const copy = copyInto(index => pattern[index] || !!rests[index])
+      setCells({
+        pattern: copy(pattern, false),
+        noteTypes: copy<NoteDuration>(noteTypes, '16th'),
+        rests: copy(rests, false),
+        ties: copy(ties, false),
+        articulations: copy<NoteArticulation | null>(articulations, null),
+        velocities: copy(velocities, DEFAULT_VELOCITY)
+      })
+    } else {
+      const next = [
+        ...subdivisions.slice(0, toBar * countsPerBar),
+        ...subdivisions.slice(fromBar * countsPerBar, (fromBar + 1) * countsPerBar),
+        ...subdivisions.slice((toBar + 1) * countsPerBar)
+      ]
+      if (next.some((cells, count) => cells !== subdivisions[count])) stopPlayback()
+      setSubdivisions(next)
+      setCells({
+        pattern: replaceBar(pattern, false),
+        noteTypes: replaceBar<NoteDuration>(noteTypes, '16th'),
+        rests: replaceBar(rests, false),
+        ties: replaceBar(ties, false),
+        articulations: replaceBar<NoteArticulation | null>(articulations, null),
+        velocities: replaceBar(velocities, DEFAULT_VELOCITY)
+      }, next)
+      setTracks(prev => prev.map(track => mapTrackCells(track, replaceBar)))
+    }
+    markModified()
   }
 
-  const copyBar = (fromBar: number, toBar: number) => {
-    const fromStart = fromBar * 16
-    const toStart = toBar * 16
-    
-    setPattern(prev => {
-      const newPattern = [...prev]
-      for (let i = 0; i < 16; i++) {
-        newPattern[toStart + i] = newPattern[fromStart + i]
-      }
-      return newPattern
-    })
+  const copyFirstBarToSecond = () => copyBar(0, 1)
+
+  // Re-lay the pattern for the new bar length, keeping the start of every bar. Tuplet
+  // notes move to the nearest 16th first, as the new meter starts out straight.
+  const changeTimeSignature = (next: TimeSignature) => {
+    stopPlayback()
+    const nextCells = cellsPerBar(next)
+    const straight = fillSubdivisions(timeSignature, subdivisions.length)
+    const usedCells = Math.max(pattern.length, ...tracks.map(track => track.pattern.length))
+    const coveredCounts = starts.findIndex(start => start >= usedCells)
+    const length = Math.ceil((coveredCounts < 0 ? subdivisions.length : coveredCounts) / countsPerBar) * barCells
+    const straightTargets = remapCells(subdivisions, straight)
+    const straightCells = moveCells(straightTargets, length)
+    const nextSubdivisions = fillSubdivisions(next, MAX_BARS * next.numerator)
+
+    setSubdivisions(nextSubdivisions)
+    setCells({
+      pattern: resizeBars(straightCells.pattern, barCells, nextCells, false),
+      noteTypes: resizeBars<NoteDuration>(straightCells.noteTypes, barCells, nextCells, '16th'),
+      rests: resizeBars(straightCells.rests, barCells, nextCells, false),
+      ties: resizeBars(straightCells.ties, barCells, nextCells, false),
+      articulations: resizeBars<NoteArticulation | null>(straightCells.articulations, barCells, nextCells, null),
+      velocities: resizeBars(straightCells.velocities, barCells, nextCells, DEFAULT_VELOCITY)
+    }, nextSubdivisions, next)
+    setTracks(prev => prev.map(track => {
+      const move = cellMover(index => !!track.pattern[index], straightTargets, length)
+      return mapTrackCells(track, (values, fill) => resizeBars(move(values, fill), barCells, nextCells, fill))
+    }))
+    setTimeSignature(next)
     
-    setNoteTypes(prev => {
-      const newTypes = [...prev]
-      for (let i = 0; i < 16; i++) {
-        newTypes[toStart + i] = newTypes[fromStart + i]
-      }
-      return newTypes
-    })
+    markModified()
   }
 
   const handleBarDragStart = (barIndex: number) => {
@@ -167,15 +625,29 @@ export function RhythmNotationEditor() {
 
   // Load a saved pattern
   const loadPattern = (savedPattern: SavedPattern) => {
+    // Patterns saved before meters were supported are 4/4
+    const savedTimeSignature = normalizeTimeSignature(savedPattern.timeSignature)
+    const savedSubdivisions = fillSubdivisions(savedTimeSignature, MAX_BARS * savedTimeSignature.numerator, savedPattern.subdivisions)
+    setTimeSignature(savedTimeSignature)
+    setSubdivisions(savedSubdivisions)
+    setSwing(savedPattern.swing ?? DEFAULT_SWING)
     setPattern(savedPattern.pattern)
     setNoteTypes(savedPattern.durations as NoteDuration[])
+    setRests(savedPattern.rests ?? new Array(savedPattern.pattern.length).fill(false))
+    setTies(savedPattern.ties ?? new Array(savedPattern.pattern.length).fill(false))
+    setArticulations(savedPattern.articulations ?? new Array(savedPattern.pattern.length).fill(null))
+    setVelocities(savedPattern.velocities ?? new Array(savedPattern.pattern.length).fill(DEFAULT_VELOCITY))
+    setVelocitySelection(null)
+    setTracks(savedPattern.tracks ?? [])
+    setMainMix(savedPattern.mainMix ?? {})
+    setActiveTrackId(null)
     setBpm(savedPattern.bpm)
     setCurrentPatternId(savedPattern.id)
     setCurrentPatternName(savedPattern.name)
     setOriginalPatternName(savedPattern.name)
     
-    // Auto-switch to 4-bar mode if pattern has more than 32 cells
-    if (savedPattern.pattern.length > 32) {
+    // Auto-switch to 4-bar mode if pattern has more than two bars of cells
+    if (savedPattern.pattern.length > countStarts(savedSubdivisions)[2 * savedTimeSignature.numerator]) {
       setFourBarMode(true)
     } else {
       setFourBarMode(false)
@@ -190,7 +662,8 @@ export function RhythmNotationEditor() {
     })
   }
 
-  const playMetronomeClick = (isDownbeat: boolean = false) => {
+  // Both players take an AudioContext time so the scheduler can queue them ahead
+  const playMetronomeClick = (accent: CountAccent, time: number) => {
     if (!audioContextRef.current) return
 
     const osc = audioContextRef.current.createOscillator()
@@ -199,66 +672,142 @@ export function RhythmNotationEditor() {
     osc.connect(gainNode)
     gainNode.connect(audioContextRef.current.destination)
     
-    osc.frequency.value = isDownbeat ? 1000 : 600
-    gainNode.gain.value = 0.2
+    osc.frequency.value = accent === 'downbeat' ? 1000 : accent === 'accent' ? 800 : 600
+    gainNode.gain.setValueAtTime(0.2, time)
     
-    osc.start()
-    gainNode.gain.exponentialRampToValueAtTime(0.001, audioContextRef.current.currentTime + 0.08)
-    osc.stop(audioContextRef.current.currentTime + 0.08)
+    osc.start(time)
+    gainNode.gain.exponentialRampToValueAtTime(0.001, time + 0.08)
+    osc.stop(time + 0.08)
   }
 
-  const playPatternNote = () => {
+  // The clap is cut off where the note ends, and a soft tone holds for as long as it
+  // sounds, so 16ths stay short and tied or long notes are heard to ring. Articulations
+  // change the strike's level and brightness, choke muted notes and extend let-ring ones;
+  // velocity and the track volume scale the whole note.
+  const playPatternNote = (time: number, written: number, articulation: NoteArticulation | null, velocity: number, volume: number) => {
     if (!audioContextRef.current || !clapBufferRef.current) return
+    const context = audioContextRef.current
+    const voicing = noteVoicing(articulation)
+    const level = velocityGain(velocity) * volume
+    const length = Math.max(voicing.minSeconds, Math.min(written, voicing.maxSeconds ?? written))
 
-    const source = audioContextRef.current.createBufferSource()
-    const gainNode = audioContextRef.current.createGain()
+    const source = context.createBufferSource()
+    const gainNode = context.createGain()
     
     source.buffer = clapBufferRef.current
+    source.playbackRate.value = voicing.rate
+    // Muted notes go through a lowpass on their way out
+    let output: AudioNode = context.destination
+    if (voicing.lowpass) {
+      const filter = context.createBiquadFilter()
+      filter.type = 'lowpass'
+      filter.frequency.value = voicing.lowpass
+      filter.connect(context.destination)
+      output = filter
+    }
     source.connect(gainNode)
-    gainNode.connect(audioContextRef.current.destination)
+    gainNode.connect(output)
     
-    gainNode.gain.value = 0.5
+    gainNode.gain.setValueAtTime(voicing.gain * level, time)
+    gainNode.gain.setValueAtTime(voicing.gain * level, time + length * 0.9)
+    gainNode.gain.linearRampToValueAtTime(0, time + length)
     
-    source.start()
+    source.start(time)
+    source.stop(time + length)
+
+    if (voicing.toneGain === 0) return
+    const tone = context.createOscillator()
+    const toneGain = context.createGain()
+    tone.type = 'triangle'
+    tone.frequency.value = voicing.tone
+    tone.connect(toneGain)
+    toneGain.connect(output)
+
+    toneGain.gain.setValueAtTime(0, time)
+    toneGain.gain.linearRampToValueAtTime(voicing.toneGain * level, time + 0.01)
+    toneGain.gain.setValueAtTime(voicing.toneGain * level, time + length * 0.9)
+    toneGain.gain.linearRampToValueAtTime(0, time + length)
+
+    tone.start(time)
+    tone.stop(time + length)
+  }
+
+  // One-shot drum sample; drum hits ring out whatever their cell length
+  const playDrumHit = (sound: TrackSound, time: number, level: number) => {
+    const context = audioContextRef.current
+    const buffer = sound === 'clap' ? clapBufferRef.current : drumSamplesRef.current?.[sound]
+    if (!context || !buffer) return
+
+    const source = context.createBufferSource()
+    const gainNode = context.createGain()
+    source.buffer = buffer
+    source.connect(gainNode)
+    gainNode.connect(context.destination)
+    gainNode.gain.value = 0.6 * level
+    source.start(time)
   }
 
+  // The loop steps through the cells laid out when it started, so anything that changes
+  // the layout (meter, subdivisions, bar count) stops playback
   const startPlayback = () => {
     if (!audioContextRef.current) return
 
     setIsPlaying(true)
     currentIndexRef.current = 0
     
-    const sixteenthNoteDuration = (60 / bpm) / 4 * 1000 // 16th note duration in ms
+    const loopCounts = barCount * countsPerBar
     
-    intervalRef.current = setInterval(() => {
-      const index = currentIndexRef.current
-      setCurrentPosition(index)
-      
-      const beatInBar = Math.floor((index % 16) / 4)
-      const sixteenth = index % 4
-      const isDownbeat = beatInBar === 0 && sixteenth === 0
-      const isBeat = sixteenth === 0
-      
-      // Always play metronome click on beats
-      if (isBeat) {
-        playMetronomeClick(isDownbeat)
-      }
-      
-      // Play pattern note if active
-      if (pattern[index]) {
-        playPatternNote()
+    schedulerRef.current?.stop()
+    schedulerRef.current = createScheduler({
+      context: audioContextRef.current,
+      getStepDuration: (step) => {
+        const { positions, secondsPerCount } = playbackRef.current
+        const index = step % totalCells
+        const next = index + 1 < totalCells ? positions[index + 1] : loopCounts
+        return (next - positions[index]) * secondsPerCount
+      },
+      onStep: (step, time) => {
+        const index = step % totalCells
+        const { count, sub } = places[index]
+        
+        // Always play metronome click on every count, accented by grouping
+        if (sub === 0) {
+          playMetronomeClick(countAccent(timeSignature, count % countsPerBar), time)
+        }
+        
+        const live = playbackRef.current
+        const anySolo = !!live.mainMix.solo || live.tracks.some(track => track.solo)
+
+        // Play pattern note if struck here (tied-to notes keep sounding instead)
+        const noteCells = live.noteLengths.get(index)
+        if (noteCells && isAudible(live.mainMix, anySolo)) {
+          const end = index + noteCells < totalCells ? live.positions[index + noteCells] : loopCounts
+          playPatternNote(
+            time,
+            (end - live.positions[index]) * live.secondsPerCount,
+            live.articulations[index] ?? null,
+            live.velocities[index] ?? DEFAULT_VELOCITY,
+            mixVolume(live.mainMix)
+          )
+        }
+
+        live.tracks.forEach(track => {
+          if (!track.pattern[index] || !isAudible(track, anySolo)) return
+          playDrumHit(track.sound, time, mixVolume(track) * velocityGain(track.velocities?.[index] ?? DEFAULT_VELOCITY))
+        })
+      },
+      // Move the playhead when the cell is heard, not when it was scheduled
+      onVisualStep: (step) => {
+        currentIndexRef.current = step % totalCells
+        setCurrentPosition(currentIndexRef.current)
       }
-      
-      const totalCells = fourBarMode ? 64 : 32
-      currentIndexRef.current = (currentIndexRef.current + 1) % totalCells
-    }, sixteenthNoteDuration)
+    })
+    schedulerRef.current.start()
   }
 
   const stopPlayback = () => {
-    if (intervalRef.current) {
-      clearInterval(intervalRef.current)
-      intervalRef.current = null
-    }
+    schedulerRef.current?.stop()
+    schedulerRef.current = null
     setIsPlaying(false)
     setCurrentPosition(-1)
     currentIndexRef.current = 0
@@ -272,225 +821,186 @@ export function RhythmNotationEditor() {
     }
   }
 
-  const renderGrid = () => {
-    if (fourBarMode) {
-      // Render 4 bars as 2 rows of 2 bars each
-      const rows = []
-      for (let row = 0; row < 2; row++) {
-        const cells = []
-        let skipNext = 0
-        const startIndex = row * 32
-        
-        for (let i = 0; i < 32; i++) {
-          const index = startIndex + i
-          
-          if (skipNext > 0) {
-            skipNext--
-            continue
-          }
-          
-          const isActive = pattern[index]
-          const bar = Math.floor(index / 16)
-          const beatInBar = Math.floor((index % 16) / 4)
-          const sixteenth = index % 4
-          const isDownbeat = beatInBar === 0 && sixteenth === 0
-          const isBeat = sixteenth === 0
-          const isCurrentlyPlaying = index === currentPosition
-          const isBarStart = index % 16 === 0
-          
-          const noteType = noteTypes[index]
-          const noteColor = noteType === 'quarter' ? 'bg-red-500' : noteType === '8th' ? 'bg-green-500' : 'bg-blue-500'
-          const noteSize = noteType === 'quarter' ? 'w-4 h-4' : noteType === '8th' ? 'w-3 h-3' : 'w-2 h-2'
-          
-          let cellSpan = 1
-          if (noteType === '8th') {
-            cellSpan = 2
-            skipNext = 1
-          } else if (noteType === 'quarter') {
-            cellSpan = 4
-            skipNext = 3
-          }
-          
-          const baseCellWidth = 30
-          const cellWidth = cellSpan * baseCellWidth
-          
-          cells.push(
-            <div key={index} className="relative group">
-              {isActive ? (
-                <div
-                  className={`
-                    relative h-20 border transition-all duration-100 flex-shrink-0 overflow-hidden
-                    ${isBarStart && (bar === 1 || bar === 3) ? 'border-l-4 border-l-purple-500 ml-1' : ''}
-                    ${isDownbeat && !(isBarStart && (bar === 1 || bar === 3)) ? 'border-l-4 border-l-red-500' : ''}
-                    ${isDownbeat && isBarStart && (bar === 0 || bar === 2) ? 'border-l-4 border-l-red-500' : ''}
-                    ${isBeat && !isDownbeat ? 'border-l-2 border-l-gray-400' : 'border-l border-gray-300'}
-                    ${noteColor}
-                    ${isCurrentlyPlaying ? 'ring-2 ring-yellow-400 ring-offset-1' : ''}
-                    border-gray-300
-                  `}
-                  style={{ width: `${cellWidth}px` }}
-                >
-                  <button
-                    onClick={() => {
-                      const nextType = noteType === '16th' ? '8th' : noteType === '8th' ? 'quarter' : '16th'
-                      changeNoteType(index, nextType)
-                    }}
-                    className="absolute top-0 left-0 right-0 h-1/2 hover:bg-black hover:bg-opacity-10 z-10"
-                    title={`Click to change duration (currently ${noteType})`}
-                  />
-                  
-                  <button
-                    onClick={() => toggleNote(index)}
-                    className="absolute bottom-0 left-0 right-0 h-1/2 hover:bg-black hover:bg-opacity-10 z-10"
-                    title="Click to remove note"
-                  />
-                  
-                  <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
-                    <div className={`${noteSize} bg-white rounded-full shadow-sm`} />
-                  </div>
-                  
-                  <div className="absolute left-0 right-0 top-1/2 h-px bg-white bg-opacity-20 pointer-events-none" />
-                </div>
-              ) : (
-                <button
-                  onClick={() => toggleNote(index)}
-                  className={`
-                    relative h-20 border transition-all duration-100 flex-shrink-0
-                    ${isBarStart && (bar === 1 || bar === 3) ? 'border-l-4 border-l-purple-500 ml-1' : ''}
-                    ${isDownbeat && !(isBarStart && (bar === 1 || bar === 3)) ? 'border-l-4 border-l-red-500' : ''}
-                    ${isDownbeat && isBarStart && (bar === 0 || bar === 2) ? 'border-l-4 border-l-red-500' : ''}
-                    ${isBeat && !isDownbeat ? 'border-l-2 border-l-gray-400' : 'border-l border-gray-300'}
-                    bg-white hover:bg-gray-100
-                    ${isCurrentlyPlaying ? 'ring-2 ring-yellow-400 ring-offset-1' : ''}
-                    border-gray-300
-                  `}
-                  style={{ width: `${cellWidth}px` }}
-                  title={`Bar ${bar + 1}, Beat ${beatInBar + 1}, 16th ${sixteenth + 1}\nClick to add note`}
-                />
-              )}
-              
-            </div>
-          )
-        }
-        
-        rows.push(
-          <div key={row}>
-            <div className="flex justify-center p-2">
-              <div className="flex">
-                {cells}
-              </div>
-            </div>
-            {/* 16th note indicators for this row */}
-            <div className="flex justify-center pb-2">
-              <div className="flex px-2">
-                {(() => {
-                  const indicators = []
-                  
-                  for (let i = 0; i < 32; i++) {
-                    const index = startIndex + i
-                    const sixteenth = index % 4
-                    const beatNumber = Math.floor((index % 16) / 4) + 1
-                    
-                    // Always show label for each position
-                    let label = sixteenth === 0 ? beatNumber.toString() : sixteenth === 1 ? "e" : sixteenth === 2 ? "&" : "a"
-                    
-                    indicators.push(
-                      <div 
-                        key={index} 
-                        className={`text-xs text-gray-500 text-center ${['1', '2', '3', '4'].includes(label) ? 'font-bold' : ''}`} 
-                        style={{ width: '30px' }}
-                      >
-                        {label}
-                      </div>
-                    )
-                  }
-                  
-                  return indicators
-                })()}
-              </div>
-            </div>
-          </div>
-        )
-      }
-      
-      return rows
-    } else {
-      // Original 2-bar rendering
-      const cells = []
-      let skipNext = 0
-      
-      for (let index = 0; index < 32; index++) {
+  // One row of bars: a subdivision switch per count, the note cells and their count labels
+  // ("1 e & a" in x/4, "1 & 2 &" in x/8, "1 trip let" in triplet counts)
+  const renderBarRow = (firstBar: number, barsInRow: number) => {
+    const headers = []
+    const cells = []
+    const indicators = []
+    const lane = []
+    let skipNext = 0
+    const perCount = cellsPerCount(timeSignature)
+    const baseCellWidth = 30
+    const countWidth = perCount * baseCellWidth
+    const options = subdivisionOptions(timeSignature)
+
+    for (let count = firstBar * countsPerBar; count < (firstBar + barsInRow) * countsPerBar; count++) {
+      const option = options.find(o => o.cells === subdivisions[count]) ?? options[0]
+      const nextOption = options[(options.indexOf(option) + 1) % options.length]
+      const bar = Math.floor(count / countsPerBar)
+      headers.push(
+        <button
+          key={count}
+          onClick={() => changeCountSubdivision(count, nextOption.cells)}
+          className={`h-5 text-[10px] font-medium border-x border-white rounded-sm ${
+            option.cells === perCount ? 'bg-gray-100 text-gray-400 hover:bg-gray-200' : 'bg-amber-100 text-amber-800 hover:bg-amber-200'
+          } ${count % countsPerBar === 0 && bar % 2 === 1 ? 'ml-1' : ''}`}
+          style={{ width: `${countWidth}px` }}
+          title={`Count ${count % countsPerBar + 1}: ${option.label}\nClick for ${nextOption.label}`}
+        >
+          {option.short}
+        </button>
+      )
+    }
+
+    const rowEnd = starts[(firstBar + barsInRow) * countsPerBar]
+    for (let index = starts[firstBar * countsPerBar]; index < rowEnd; index++) {
+      const { count: patternCount, sub, cells: countCells } = places[index]
+      const bar = Math.floor(patternCount / countsPerBar)
+      const count = patternCount % countsPerBar
+      const straight = countCells === perCount
+      const cellInBar = count * perCount + sub
+      const level = straight || sub === 0 ? cellLevel(timeSignature, count * perCount + (straight ? sub : 0)) : 'sixteenth'
+      const cellWidth = straight ? baseCellWidth : countWidth / countCells
+
+      // Always show label for each position
+      const label = sub === 0
+        ? (count + 1).toString()
+        : straight
+          ? perCount === 4 ? ['', 'e', '&', 'a'][sub] : '&'
+          : TUPLET_SYLLABLES[countCells]?.[sub] ?? ''
+      indicators.push(
+        <div
+          key={index}
+          className={`text-xs text-center ${straight ? 'text-gray-500' : 'text-amber-700'} ${sub === 0 ? 'font-bold' : ''} ${cellInBar === 0 && bar % 2 === 1 ? 'ml-1' : ''}`}
+          style={{ width: `${cellWidth}px` }}
+        >
+          {label}
+        </div>
+      )
+
       if (skipNext > 0) {
         skipNext--
         continue
       }
-      
-      const isActive = pattern[index]
-      const bar = Math.floor(index / 16)
-      const beatInBar = Math.floor((index % 16) / 4)
-      const sixteenth = index % 4
-      const isDownbeat = beatInBar === 0 && sixteenth === 0
-      const isBeat = sixteenth === 0
+
+      const isNote = !!laneHits[index]
+      const isRest = !activeTrack && !isNote && !!rests[index]
+      const isActive = isNote || isRest
       const isCurrentlyPlaying = index === currentPosition
-      const isBarStart = index % 16 === 0
-      
-      const noteType = noteTypes[index]
-      const noteColor = noteType === 'quarter' ? 'bg-red-500' : noteType === '8th' ? 'bg-green-500' : 'bg-blue-500'
-      const noteSize = noteType === 'quarter' ? 'w-4 h-4' : noteType === '8th' ? 'w-3 h-3' : 'w-2 h-2'
-      
-      // Determine how many cells this note spans
-      let cellSpan = 1
-      if (noteType === '8th') {
-        cellSpan = 2
-        skipNext = 1
-      } else if (noteType === 'quarter') {
-        cellSpan = 4
-        skipNext = 3
-      }
-      
-      // Calculate cell width to fit in container nicely 
-      const baseCellWidth = 30 // Back to 30px per cell
-      const cellWidth = cellSpan * baseCellWidth
-      
+      const isBarStart = cellInBar === 0
+
+      // Bar lines: red on the first bar of a row, purple (with a gap) on the second;
+      // group pulses get a beat line, the remaining counts of an x/8 group a lighter one
+      const lineClasses = `
+        ${isBarStart && bar % 2 === 1 ? 'border-l-4 border-l-purple-500 ml-1' : ''}
+        ${isBarStart && bar % 2 === 0 ? 'border-l-4 border-l-red-500' : ''}
+        ${level === 'beat' ? 'border-l-2 border-l-gray-400' : sub === 0 && !isBarStart ? 'border-l border-l-gray-400' : 'border-l border-gray-300'}
+      `
+
+      const noteType = activeTrack ? '16th' : noteTypes[index] ?? '16th'
+      const noteColor = isRest
+        ? 'bg-gray-300'
+        : activeTrack ? trackSoundOption(activeTrack.sound).color : !straight ? 'bg-amber-500' : DURATION_COLORS[noteType]
+      const noteSize = DURATION_CELLS[noteType] >= 8 ? 'w-4 h-4' : DURATION_CELLS[noteType] >= 2 ? 'w-3 h-3' : 'w-2 h-2'
+      const dotted = straight && noteType.startsWith('dotted')
+      const tied = !activeTrack && isNote && !!ties[index]
+      const glyphs = !activeTrack && isNote ? articulationGlyphs(articulations[index]) : []
+      // Hits of the tracks not being edited, as small dots
+      const otherHits = [
+        ...(activeTrack && pattern[index] ? ['bg-blue-500'] : []),
+        ...tracks.filter(track => track.id !== activeTrackId && track.pattern[index]).map(track => trackSoundOption(track.sound).color)
+      ]
+      const otherHitDots = otherHits.length > 0 && (
+        <div className="absolute top-1 left-0 right-0 flex justify-center gap-0.5 pointer-events-none">
+          {otherHits.map((color, i) => <div key={i} className={`w-1.5 h-1.5 rounded-full ring-1 ring-white ${color}`} />)}
+        </div>
+      )
+      const toolLabel = ARTICULATIONS.find(option => option.kind === articulationTool)?.label.toLowerCase()
+      const durationName = straight ? DURATION_LABELS[noteType].toLowerCase() : 'tuplet'
+
+      // Determine how many cells this note or rest spans (within this row)
+      const cellSpan = isActive && straight ? Math.min(DURATION_CELLS[noteType], rowEnd - index) : 1
+      skipNext = cellSpan - 1
+      const spanWidth = cellSpan * cellWidth
+
       cells.push(
         <div key={index} className="relative group">
           {isActive ? (
-            // When note exists, split into upper/lower halves
+            // When a note or rest exists, split into upper/lower halves
             <div
               className={`
                 relative h-20 border transition-all duration-100 flex-shrink-0 overflow-hidden
-                ${isBarStart && bar > 0 ? 'border-l-4 border-l-purple-500 ml-1' : ''}
-                ${isDownbeat && !isBarStart ? 'border-l-4 border-l-red-500' : ''}
-                ${isDownbeat && isBarStart && bar === 0 ? 'border-l-4 border-l-red-500' : ''}
-                ${isBeat && !isDownbeat ? 'border-l-2 border-l-gray-400' : 'border-l border-gray-300'}
+                ${lineClasses}
                 ${noteColor}
                 ${isCurrentlyPlaying ? 'ring-2 ring-yellow-400 ring-offset-1' : ''}
                 border-gray-300
               `}
-              style={{ width: `${cellWidth}px` }}
+              style={{ width: `${spanWidth}px` }}
             >
-              {/* Upper half - change duration */}
-              <button
-                onClick={() => {
-                  const nextType = noteType === '16th' ? '8th' : noteType === '8th' ? 'quarter' : '16th'
-                  changeNoteType(index, nextType)
-                }}
-                className="absolute top-0 left-0 right-0 h-1/2 hover:bg-black hover:bg-opacity-10 z-10"
-                title={`Click to change duration (currently ${noteType})`}
-              />
-              
-              {/* Lower half - toggle on/off */}
-              <button
-                onClick={() => toggleNote(index)}
-                className="absolute bottom-0 left-0 right-0 h-1/2 hover:bg-black hover:bg-opacity-10 z-10"
-                title="Click to remove note"
-              />
-              
-              {/* Note visual */}
-              <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
-                <div className={`${noteSize} bg-white rounded-full shadow-sm`} />
+              {activeTrack ? (
+                <button
+                  onClick={() => toggleNote(index)}
+                  className="absolute inset-0 hover:bg-black hover:bg-opacity-10 z-10"
+                  title={`Click to remove ${activeTrack.name} hit`}
+                />
+              ) : isNote && articulationTool ? (
+                // With an articulation tool picked, the whole note toggles that mark
+                <button
+                  onClick={() => toggleNoteArticulation(index, articulationTool)}
+                  className="absolute inset-0 hover:bg-black hover:bg-opacity-10 z-10"
+                  title={`Click to toggle ${toolLabel}`}
+                />
+              ) : (
+                <>
+                  {/* Upper half - change duration (tuplet notes are always one cell) */}
+                  <button
+                    onClick={() => straight && changeNoteType(index, nextNoteType(index, noteType))}
+                    className="absolute top-0 left-0 right-0 h-1/2 hover:bg-black hover:bg-opacity-10 z-10"
+                    title={straight ? `Click to change duration (currently ${durationName} ${isRest ? 'rest' : 'note'})` : 'Tuplet notes last one cell'}
+                  />
+
+                  {/* Lower half - toggle on/off */}
+                  <button
+                    onClick={() => toggleNote(index)}
+                    className="absolute bottom-0 left-0 right-0 h-1/2 hover:bg-black hover:bg-opacity-10 z-10"
+                    title={isRest ? 'Click to remove rest' : 'Click to remove note'}
+                  />
+                </>
+              )}
+
+              {/* Articulation marks */}
+              {glyphs.length > 0 && (
+                <div className="absolute bottom-1 left-0 right-0 flex flex-wrap justify-center gap-x-0.5 text-[9px] font-bold leading-none text-white pointer-events-none">
+                  {glyphs.map(glyph => <span key={glyph}>{glyph}</span>)}
+                </div>
+              )}
+
+              {otherHitDots}
+
+              {/* Tie into the next note */}
+              {isNote && !activeTrack && (
+                <button
+                  onClick={() => toggleTie(index)}
+                  className={`absolute top-0.5 right-0.5 w-4 h-3 rounded-sm text-[10px] leading-3 z-20 ${
+                    tied ? 'bg-white text-gray-800' : 'bg-black bg-opacity-20 text-white opacity-0 group-hover:opacity-100'
+                  }`}
+                  title={tied ? 'Remove tie' : 'Tie into the next note'}
+                >
+                  ⌒
+                </button>
+              )}
+
+              {/* Note or rest visual */}
+              <div className="absolute inset-0 flex items-center justify-center gap-0.5 pointer-events-none">
+                {isRest ? (
+                  <div className="w-3 h-1.5 bg-gray-700 rounded-sm" />
+                ) : (
+                  <div className={`${activeTrack ? 'w-2 h-2' : noteSize} bg-white rounded-full shadow-sm`} />
+                )}
+                {dotted && <div className={`w-1 h-1 rounded-full ${isRest ? 'bg-gray-700' : 'bg-white'}`} />}
               </div>
-              
+
               {/* Visual separator line */}
               <div className="absolute left-0 right-0 top-1/2 h-px bg-white bg-opacity-20 pointer-events-none" />
             </div>
@@ -500,25 +1010,166 @@ export function RhythmNotationEditor() {
               onClick={() => toggleNote(index)}
               className={`
                 relative h-20 border transition-all duration-100 flex-shrink-0
-                ${isBarStart && bar > 0 ? 'border-l-4 border-l-purple-500 ml-1' : ''}
-                ${isDownbeat && !isBarStart ? 'border-l-4 border-l-red-500' : ''}
-                ${isDownbeat && isBarStart && bar === 0 ? 'border-l-4 border-l-red-500' : ''}
-                ${isBeat && !isDownbeat ? 'border-l-2 border-l-gray-400' : 'border-l border-gray-300'}
-                bg-white hover:bg-gray-100
+                ${lineClasses}
+                ${straight ? 'bg-white hover:bg-gray-100' : 'bg-amber-50 hover:bg-amber-100'}
                 ${isCurrentlyPlaying ? 'ring-2 ring-yellow-400 ring-offset-1' : ''}
                 border-gray-300
               `}
-              style={{ width: `${cellWidth}px` }}
-              title={`Bar ${bar + 1}, Beat ${beatInBar + 1}, 16th ${sixteenth + 1}\nClick to add note`}
-            />
+              style={{ width: `${spanWidth}px` }}
+              title={`Bar ${bar + 1}, Beat ${count + 1}, ${straight ? '16th' : 'Tuplet note'} ${sub + 1}\nClick to add ${
+                activeTrack ? `${activeTrack.name} hit` : articulationTool ? `${toolLabel} note` : restMode ? 'rest' : 'note'
+              }`}
+            >
+              {otherHitDots}
+            </button>
+          )}
+        </div>
+      )
+
+      const velocity = laneVelocities[index] ?? DEFAULT_VELOCITY
+      const selected = !!velocitySelection && index >= velocitySelection.from && index <= velocitySelection.to
+      lane.push(
+        <div
+          key={index}
+          onPointerDown={(e) => handleVelocityPointerDown(index, e)}
+          onPointerMove={(e) => e.currentTarget.hasPointerCapture(e.pointerId) && setVelocityFromPointer(index, e)}
+          onPointerEnter={() => handleVelocityPointerEnter(index)}
+          className={`relative h-10 flex-shrink-0 border-x border-white touch-none select-none ${
+            selected ? 'bg-blue-100' : 'bg-gray-50'
+          } ${isBarStart && bar % 2 === 1 ? 'ml-1' : ''} ${isNote ? 'cursor-ns-resize' : 'cursor-crosshair'}`}
+          style={{ width: `${spanWidth}px` }}
+          title={isNote ? `Velocity ${velocity} (${dynamicMark(velocity)})\nDrag to change, Shift-drag to select` : 'Drag to select notes for a ramp'}
+        >
+          {isNote && (
+            <>
+              <div
+                className={`absolute bottom-0 left-1/2 -translate-x-1/2 w-2 rounded-t-sm pointer-events-none ${selected ? 'bg-blue-600' : 'bg-gray-500'}`}
+                style={{ height: `${velocity / MAX_VELOCITY * 100}%` }}
+              />
+              <span className="absolute top-0 left-0 right-0 text-center text-[9px] italic font-semibold text-gray-600 pointer-events-none">
+                {dynamicMark(velocity)}
+              </span>
+            </>
           )}
-          
         </div>
       )
     }
-    
-    return cells
+
+    return (
+      <div key={firstBar}>
+        <div className="flex justify-center px-2 pt-2">
+          <div className="flex">
+            {headers}
+          </div>
+        </div>
+        <div className="flex justify-center p-2">
+          <div className="flex">
+            {cells}
+          </div>
+        </div>
+        <div className="flex justify-center pb-2">
+          <div className="flex px-2">
+            {indicators}
+          </div>
+        </div>
+        <div className="flex justify-center pb-2">
+          <div className="flex px-2">
+            {lane}
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  // One mixer row: select to edit it in the grid, plus sound, volume, mute and solo
+  const renderTrackRow = (track: PatternTrack | null) => {
+    const id = track ? track.id : null
+    const mix = track ?? mainMix
+    // Track and mixer settings are saved with the pattern, so changing them modifies it
+    const changeTrack = (next: Partial<PatternTrack>) => {
+      if (track) updateTrack(track.id, current => ({ ...current, ...next }))
+      markModified()
     }
+    const changeMix = (next: TrackMix) => {
+      if (track) {
+        changeTrack(next)
+      } else {
+        setMainMix(next)
+        markModified()
+      }
+    }
+    const selected = activeTrackId === id
+
+    return (
+      <div
+        key={id ?? 'main'}
+        onClick={() => selectTrack(id)}
+        className={`flex items-center gap-2 rounded-lg px-2 py-1 cursor-pointer ${selected ? 'bg-blue-50 ring-1 ring-blue-300' : 'bg-gray-50 hover:bg-gray-100'}`}
+      >
+        <span className={`w-2.5 h-2.5 flex-shrink-0 rounded-full ${track ? trackSoundOption(track.sound).color : 'bg-blue-500'}`} />
+        {track ? (
+          <input
+            value={track.name}
+            onChange={(e) => changeTrack({ name: e.target.value })}
+            className="w-28 bg-transparent text-sm font-medium text-gray-800 focus:outline-none focus:ring-1 focus:ring-blue-300 rounded px-1"
+          />
+        ) : (
+          <span className="w-28 px-1 text-sm font-medium text-gray-800">Strum</span>
+        )}
+        {track ? (
+          <select
+            value={track.sound}
+            onChange={(e) => changeTrack({ sound: e.target.value as TrackSound })}
+            className="h-7 w-20 rounded-md border border-gray-200 bg-white px-1 text-xs"
+          >
+            {TRACK_SOUNDS.map(option => <option key={option.sound} value={option.sound}>{option.label}</option>)}
+          </select>
+        ) : (
+          <span className="w-20 text-xs text-gray-500">Guitar</span>
+        )}
+        <input
+          type="range"
+          min={0}
+          max={100}
+          value={Math.round(mixVolume(mix) * 100)}
+          onChange={(e) => changeMix({ ...mix, volume: Number(e.target.value) / 100 })}
+          className="flex-1 max-w-[10rem] h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+          title={`Volume ${Math.round(mixVolume(mix) * 100)}%`}
+        />
+        <button
+          onClick={(e) => {
+            e.stopPropagation()
+            changeMix({ ...mix, muted: !mix.muted })
+          }}
+          className={`h-6 w-6 rounded text-xs font-bold ${mix.muted ? 'bg-red-500 text-white' : 'bg-gray-200 text-gray-600 hover:bg-gray-300'}`}
+          title={mix.muted ? 'Unmute' : 'Mute'}
+        >
+          M
+        </button>
+        <button
+          onClick={(e) => {
+            e.stopPropagation()
+            changeMix({ ...mix, solo: !mix.solo })
+          }}
+          className={`h-6 w-6 rounded text-xs font-bold ${mix.solo ? 'bg-yellow-400 text-gray-900' : 'bg-gray-200 text-gray-600 hover:bg-gray-300'}`}
+          title={mix.solo ? 'Unsolo' : 'Solo'}
+        >
+          S
+        </button>
+        {track && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation()
+              removeTrack(track.id)
+            }}
+            className="h-6 px-1 rounded text-xs text-gray-500 hover:bg-red-100 hover:text-red-600"
+            title="Remove track"
+          >
+            Remove
+          </button>
+        )}
+      </div>
+    )
   }
 
   return (
@@ -540,27 +1191,67 @@ export function RhythmNotationEditor() {
           <CardTitle className="flex items-center gap-2">
             <Music className="h-5 w-5" />
             16th Note Pattern Grid
+            <div className="ml-auto">
+              <TimeSignatureSelector value={timeSignature} onChange={changeTimeSignature} />
+            </div>
             <Button
-              onClick={() => setFourBarMode(!fourBarMode)}
+              onClick={() => {
+                stopPlayback()
+                setFourBarMode(!fourBarMode)
+              }}
               size="sm"
               variant={fourBarMode ? "default" : "outline"}
-              className="ml-auto"
             >
               <Repeat className="h-4 w-4 mr-2" />
               {fourBarMode ? '4 Bars' : '2 Bars'}
             </Button>
           </CardTitle>
           <CardDescription>
-            Click on the grid to place notes. Create {fourBarMode ? '4 bars' : '2 bars'} of 4/4 rhythmic patterns for bass grooves.
+            Click on the grid to place notes. Create {fourBarMode ? '4 bars' : '2 bars'} of {formatTimeSignature(timeSignature)} rhythmic patterns for bass grooves.
           </CardDescription>
         </CardHeader>
         <CardContent>
 
+          {/* Tracks - the grid edits the selected one, the others play along */}
+          <div className="mb-4 space-y-1">
+            {renderTrackRow(null)}
+            {tracks.map(track => renderTrackRow(track))}
+            <div className="flex flex-wrap items-center gap-2 pt-1">
+              {tracks.length < MAX_TRACKS && TRACK_SOUNDS.map(option => (
+                <button
+                  key={option.sound}
+                  onClick={() => addTrack(option.sound)}
+                  className="px-2 py-1 rounded-md text-xs font-medium border border-dashed border-gray-300 text-gray-600 hover:bg-gray-50"
+                >
+                  + {option.label}
+                </button>
+              ))}
+              {tracks.length > 0 && (
+                <div className="ml-auto flex items-center gap-2">
+                  <span className="text-xs text-gray-500">Bar copy and drag</span>
+                  <div className="flex rounded-lg bg-gray-100 p-0.5">
+                    {(['track', 'all'] as const).map(scope => (
+                      <button
+                        key={scope}
+                        onClick={() => setBarScope(scope)}
+                        className={`px-2 py-0.5 rounded-md text-xs font-medium ${
+                          barScope === scope ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+                        }`}
+                      >
+                        {scope === 'track' ? (activeTrack ? activeTrack.name : 'Strum') : 'All tracks'}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+
           {/* Bar labels with drag handles */}
           {(fourBarMode || true) && (
             <div className="flex justify-center mb-2">
               <div className="flex gap-1">
-                {Array.from({ length: fourBarMode ? 4 : 2 }, (_, barIndex) => (
+                {Array.from({ length: barCount }, (_, barIndex) => (
                   <div
                     key={barIndex}
                     draggable
@@ -572,7 +1263,7 @@ export function RhythmNotationEditor() {
                       px-3 py-1 rounded-t-lg cursor-move transition-all
                       ${draggedBar === barIndex ? 'bg-blue-500 text-white' : 'bg-gray-200 hover:bg-gray-300'}
                     `}
-                    style={{ width: fourBarMode ? '120px' : '240px' }}
+                    style={{ width: `${barCells * (fourBarMode ? 7.5 : 15)}px` }}
                   >
                     <div className="flex items-center justify-center gap-1">
                       <GripVertical className="h-3 w-3" />
@@ -584,52 +1275,82 @@ export function RhythmNotationEditor() {
             </div>
           )}
 
-          {/* Grid - full width with better styling */}
-          <div className="border-2 border-gray-400 rounded-lg shadow-sm bg-white">
-            {fourBarMode ? (
-              <div>
-                {renderGrid()}
-              </div>
-            ) : (
-              <div className="flex justify-center p-2">
-                <div className="flex">
-                  {renderGrid()}
+          {activeTrack ? (
+            <p className="mb-3 text-sm text-gray-600">
+              Editing <span className="font-medium">{activeTrack.name}</span>: click cells to add or remove hits. Dots show the other tracks.
+            </p>
+          ) : (
+            <>
+              {/* Palette - what an empty cell gets when clicked */}
+              <div className="flex flex-wrap items-center gap-2 mb-3">
+                <div className="flex rounded-lg bg-gray-100 p-0.5">
+                  {([false, true] as const).map(rest => (
+                    <button
+                      key={rest ? 'rest' : 'note'}
+                      onClick={() => setRestMode(rest)}
+                      className={`px-3 py-1 rounded-md text-xs font-medium ${
+                        restMode === rest ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+                      }`}
+                    >
+                      {rest ? 'Rest' : 'Note'}
+                    </button>
+                  ))}
                 </div>
+                {NOTE_DURATIONS.map(duration => (
+                  <button
+                    key={duration}
+                    onClick={() => setNewNoteDuration(duration)}
+                    className={`px-2 py-1 rounded-md text-xs font-medium border ${
+                      newNoteDuration === duration
+                        ? 'border-blue-500 bg-blue-50 text-blue-700'
+                        : 'border-gray-200 bg-white text-gray-600 hover:bg-gray-50'
+                    }`}
+                    title={`New ${restMode ? 'rests' : 'notes'} are ${DURATION_LABELS[duration].toLowerCase()}s, or the longest value that fits`}
+                  >
+                    <span className={`inline-block w-2 h-2 rounded-full mr-1 ${DURATION_COLORS[duration]}`} />
+                    {DURATION_LABELS[duration]}
+                  </button>
+                ))}
               </div>
-            )}
-          </div>
 
-          {/* 16th note indicators - matching the rendered grid */}
-          {!fourBarMode && (
-            <div className="mt-2 flex justify-center">
-              <div className="flex px-2">
-                {(() => {
-                  const indicators = []
-                  
-                  for (let index = 0; index < 32; index++) {
-                    const sixteenth = index % 4
-                    const beatNumber = Math.floor((index % 16) / 4) + 1
-                    
-                    // Always show label for each position
-                    let label = sixteenth === 0 ? beatNumber.toString() : sixteenth === 1 ? "e" : sixteenth === 2 ? "&" : "a"
-                    
-                    indicators.push(
-                      <div 
-                        key={index} 
-                        className={`text-xs text-gray-500 text-center ${['1', '2', '3', '4'].includes(label) ? 'font-bold' : ''}`} 
-                        style={{ width: '30px' }}
-                      >
-                        {label}
-                      </div>
-                    )
-                  }
-                  
-                  return indicators
-                })()}
-            </div>
-          </div>
+              {/* Articulation tools - while one is picked, clicking a note toggles it */}
+              <div className="flex flex-wrap items-center gap-2 mb-3">
+                <span className="text-xs font-medium text-gray-500">Articulation</span>
+                <button
+                  onClick={() => setArticulationTool(null)}
+                  className={`px-2 py-1 rounded-md text-xs font-medium border ${
+                    articulationTool === null
+                      ? 'border-blue-500 bg-blue-50 text-blue-700'
+                      : 'border-gray-200 bg-white text-gray-600 hover:bg-gray-50'
+                  }`}
+                  title="Click notes to edit them as usual"
+                >
+                  Off
+                </button>
+                {ARTICULATIONS.map(option => (
+                  <button
+                    key={option.kind}
+                    onClick={() => setArticulationTool(articulationTool === option.kind ? null : option.kind)}
+                    className={`px-2 py-1 rounded-md text-xs font-medium border ${
+                      articulationTool === option.kind
+                        ? 'border-blue-500 bg-blue-50 text-blue-700'
+                        : 'border-gray-200 bg-white text-gray-600 hover:bg-gray-50'
+                    }`}
+                    title={`Click notes to toggle ${option.label.toLowerCase()}`}
+                  >
+                    <span className="font-bold mr-1">{option.glyph}</span>
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </>
           )}
 
+          {/* Grid - full width with better styling, two bars per row */}
+          <div className="border-2 border-gray-400 rounded-lg shadow-sm bg-white">
+            {Array.from({ length: barCount / 2 }, (_, row) => renderBarRow(row * 2, 2))}
+          </div>
+
           {/* Action Buttons */}
           <div className="mt-8 space-y-6">
             <div className="flex gap-3">
@@ -671,6 +1392,64 @@ export function RhythmNotationEditor() {
                 <RotateCcw className="h-4 w-4 mr-2" />
                 Clear
               </Button>
+
+              <Button
+                onClick={exportMidi}
+                size="lg"
+                variant="outline"
+              >
+                <FileMusic className="h-4 w-4 mr-2" />
+                Export MIDI
+              </Button>
+            </div>
+
+            {/* Swing - delays the off-beat half of every straight count on playback */}
+            <div className="flex items-center gap-3 px-1">
+              <span className="text-sm font-medium text-gray-700">Swing</span>
+              <input
+                type="range"
+                min={DEFAULT_SWING}
+                max={MAX_SWING}
+                value={swing}
+                onChange={(e) => changeSwing(Number(e.target.value))}
+                className="flex-1 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+              />
+              <span className="w-24 text-right text-sm tabular-nums text-gray-600">
+                {swing === DEFAULT_SWING ? 'Straight' : `${swing}%${swing === 67 ? ' (triplet)' : ''}`}
+              </span>
+            </div>
+
+            {/* Dynamics - ramp velocities across the notes selected in the lane */}
+            <div className="flex flex-wrap items-center gap-2 px-1">
+              <span className="text-sm font-medium text-gray-700">Dynamics</span>
+              <select
+                value={rampLow}
+                onChange={(e) => setRampLow(Number(e.target.value))}
+                className="h-8 rounded-md border border-gray-200 bg-white px-2 text-sm italic"
+              >
+                {DYNAMICS.map(dynamic => <option key={dynamic.mark} value={dynamic.velocity}>{dynamic.mark}</option>)}
+              </select>
+              <span className="text-sm text-gray-500">to</span>
+              <select
+                value={rampHigh}
+                onChange={(e) => setRampHigh(Number(e.target.value))}
+                className="h-8 rounded-md border border-gray-200 bg-white px-2 text-sm italic"
+              >
+                {DYNAMICS.map(dynamic => <option key={dynamic.mark} value={dynamic.velocity}>{dynamic.mark}</option>)}
+              </select>
+              <Button size="sm" variant="outline" onClick={() => applyRamp(true)}>
+                Crescendo
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => applyRamp(false)}>
+                Decrescendo
+              </Button>
+              <span className="flex-1 text-right text-xs text-gray-500">
+                {velocitySelection ? (
+                  <button onClick={() => setVelocitySelection(null)} className="underline hover:text-gray-700">
+                    Clear selection
+                  </button>
+                ) : 'Drag in the velocity lane to select notes; without a selection ramps cover the whole pattern'}
+              </span>
             </div>
           </div>
 
@@ -769,6 +1548,9 @@ export function RhythmNotationEditor() {
                   </button>
                 ))}
               </div>
+
+              {/* Tap tempo */}
+              <TapTempo onTempo={setBpm} audioContext={audioContextRef.current} />
               
 
             </div>
@@ -780,9 +1562,20 @@ export function RhythmNotationEditor() {
       {/* Save/Load Pattern Manager */}
       <div className="mt-6">
         <SavedPatternsManager
-          currentPattern={pattern}
-          currentDurations={noteTypes}
+          currentPattern={shownCells(pattern, false)}
+          currentDurations={shownCells<NoteDuration>(noteTypes, '16th')}
           currentBPM={bpm}
+          currentTimeSignature={timeSignature}
+          currentDetails={{
+            subdivisions: compactSubdivisions(timeSignature, subdivisions, totalCells),
+            swing: swing === DEFAULT_SWING ? undefined : swing,
+            rests: rests.some(Boolean) ? shownCells(rests, false) : undefined,
+            ties: ties.some(Boolean) ? shownCells(ties, false) : undefined,
+            articulations: articulations.some(Boolean) ? shownCells<NoteArticulation | null>(articulations, null) : undefined,
+            velocities: pattern.some((on, index) => on && velocities[index] !== DEFAULT_VELOCITY) ? shownCells(velocities, DEFAULT_VELOCITY) : undefined,
+            tracks: tracks.length > 0 ? tracks.map(track => compactTrack(track, totalCells)) : undefined,
+            mainMix: compactMix(mainMix)
+          }}
           onLoadPattern={loadPattern}
           currentPatternId={currentPatternId}
           onPatternOverwritten={(originalName) => {
@@ -24,14 +24,22 @@ import { Textarea } from "@/components/ui/textarea";
 import {
   SavedPattern,
   createSavedPattern,
+  downloadJSON,
+  exportPatternsToJSON,
+  patternFilename,
+  type PatternDetails,
 } from "@/lib/pattern-storage";
-import { Save, RefreshCw, Trash2, FileJson, Grid3X3, Loader2, Download } from "lucide-react";
+import { downloadMidi } from "@/lib/midi-export";
+import { formatTimeSignature, normalizeTimeSignature, type TimeSignature } from "@/lib/time-signature";
+import { Save, RefreshCw, Trash2, FileJson, FileMusic, Grid3X3, Loader2, Download } from "lucide-react";
 import { toast } from "sonner";
 
 interface SavedPatternsManagerProps {
   currentPattern: boolean[];
   currentDurations: string[];
   currentBPM: number;
+  currentTimeSignature: TimeSignature;
+  currentDetails?: PatternDetails;
   onLoadPattern: (pattern: SavedPattern) => void;
   currentPatternId?: string | null;
   onPatternOverwritten?: (originalName: string) => void;
@@ -41,6 +49,8 @@ export function SavedPatternsManager({
   currentPattern,
   currentDurations,
   currentBPM,
+  currentTimeSignature,
+  currentDetails = {},
   onLoadPattern,
   currentPatternId,
   onPatternOverwritten,
@@ -79,7 +89,7 @@ export function SavedPatternsManager({
       return;
     }
 
-    const newPattern = createSavedPattern(patternName, currentBPM, currentPattern, currentDurations);
+    const newPattern = createSavedPattern(patternName, currentBPM, currentPattern, currentDurations, currentTimeSignature, currentDetails);
     if (patternDescription.trim()) {
       newPattern.description = patternDescription;
     }
@@ -118,6 +128,15 @@ export function SavedPatternsManager({
       pattern: currentPattern,
       durations: currentDurations,
       bpm: currentBPM,
+      timeSignature: currentTimeSignature,
+      subdivisions: currentDetails.subdivisions,
+      swing: currentDetails.swing,
+      rests: currentDetails.rests,
+      ties: currentDetails.ties,
+      articulations: currentDetails.articulations,
+      velocities: currentDetails.velocities,
+      tracks: currentDetails.tracks,
+      mainMix: currentDetails.mainMix,
       updatedAt: new Date().toISOString(),
     };
 
@@ -210,7 +229,7 @@ export function SavedPatternsManager({
                 />
               </div>
               <div className="flex justify-between items-center text-sm text-muted-foreground">
-                <span>BPM: {currentBPM}</span>
+                <span>BPM: {currentBPM} • {formatTimeSignature(currentTimeSignature)}</span>
                 <span>{formatPattern(currentPattern)}</span>
               </div>
               <Button onClick={savePattern} className="w-full">
@@ -247,10 +266,20 @@ export function SavedPatternsManager({
                       <div className="flex items-center gap-2 mb-1">
                         <h4 className="font-semibold">{pattern.name}</h4>
                         <Badge variant="secondary">{pattern.bpm} BPM</Badge>
+                        <Badge variant="secondary">{formatTimeSignature(normalizeTimeSignature(pattern.timeSignature))}</Badge>
                         <Badge variant="outline">
                           <Grid3X3 className="mr-1 h-3 w-3" />
                           {formatPattern(pattern.pattern)}
                         </Badge>
+                        {pattern.subdivisions && <Badge variant="outline">Tuplets</Badge>}
+                        {pattern.swing && pattern.swing !== 50 && <Badge variant="outline">{pattern.swing}% swing</Badge>}
+                        {pattern.articulations?.some(Boolean) && <Badge variant="outline">Articulations</Badge>}
+                        {pattern.velocities && <Badge variant="outline">Dynamics</Badge>}
+                        {pattern.tracks && pattern.tracks.length > 0 && (
+                          <Badge variant="outline">
+                            +{pattern.tracks.length} drum track{pattern.tracks.length !== 1 ? "s" : ""}
+                          </Badge>
+                        )}
                       </div>
                       {pattern.description && (
                         <p className="text-sm text-muted-foreground mb-2">
@@ -284,6 +313,22 @@ export function SavedPatternsManager({
                           Overwrite
                         </Button>
                       )}
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => downloadMidi(pattern)}
+                        title="Export as a MIDI file"
+                      >
+                        <FileMusic className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => downloadJSON(exportPatternsToJSON([pattern]), patternFilename(pattern.name, "json"))}
+                        title="Export as JSON"
+                      >
+                        <FileJson className="h-4 w-4" />
+                      </Button>
                       <Button
                         size="sm"
                         variant="ghost"
@@ -0,0 +1,236 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { AlertTriangle, History, Pencil, Play, RefreshCw, Square, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+import { loadTakeAudio, type StoredTake } from "@/lib/take-history"
+
+interface TakeHistoryProps {
+  takes: StoredTake[]
+  currentTakeId: string | null
+  compareIds: string[] // ticked takes, overlaid on the rhythm grid
+  onCompareChange: (ids: string[]) => void
+  getAudioContext: () => AudioContext
+  onOpen: (take: StoredTake) => void
+  onReanalyze: (take: StoredTake) => void
+  onRename: (take: StoredTake, name: string) => void
+  onDelete: (take: StoredTake) => void
+  disabled?: boolean
+}
+
+export function TakeHistory({
+  takes,
+  currentTakeId,
+  compareIds,
+  onCompareChange,
+  getAudioContext,
+  onOpen,
+  onReanalyze,
+  onRename,
+  onDelete,
+  disabled
+}: TakeHistoryProps) {
+  const [playingId, setPlayingId] = useState<string | null>(null)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [draftName, setDraftName] = useState('')
+  const sourceRef = useRef<AudioBufferSourceNode | null>(null)
+
+  const stopPlayback = () => {
+    sourceRef.current?.stop()
+    sourceRef.current = null
+    setPlayingId(null)
+  }
+
+  useEffect(() => () => sourceRef.current?.stop(), [])
+
+  const playTake = async (take: StoredTake) => {
+    stopPlayback()
+    const context = getAudioContext()
+    let buffer: AudioBuffer | null
+    try {
+      buffer = await loadTakeAudio(context, take.id)
+      if (context.state === 'suspended') await context.resume()
+    } catch (error) {
+      console.error('Error playing take:', error)
+      toast.error(`Could not play "${take.name}"`)
+      return
+    }
+    if (!buffer) {
+      toast.error(`The audio for "${take.name}" is missing`)
+      return
+    }
+
+    const source = context.createBufferSource()
+    source.buffer = buffer
+    source.connect(context.destination)
+    source.onended = () => {
+      if (sourceRef.current === source) {
+        sourceRef.current = null
+        setPlayingId(null)
+      }
+    }
+    source.start()
+    sourceRef.current = source
+    setPlayingId(take.id)
+  }
+
+  const startRename = (take: StoredTake) => {
+    setEditingId(take.id)
+    setDraftName(take.name)
+  }
+
+  const finishRename = (take: StoredTake) => {
+    const name = draftName.trim()
+    if (name && name !== take.name) onRename(take, name)
+    setEditingId(null)
+  }
+
+  const toggleCompare = (id: string, checked: boolean) => {
+    onCompareChange(checked ? [...compareIds, id] : compareIds.filter(other => other !== id))
+  }
+
+  const compared = takes.filter(take => compareIds.includes(take.id))
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl p-4 shadow-sm">
+      <div className="flex items-center gap-2 mb-3">
+        <History className="h-4 w-4 text-blue-600" />
+        <span className="font-medium text-gray-800">Session Takes</span>
+        <span className="text-sm text-muted-foreground">({takes.length})</span>
+        {takes.length > 1 && (
+          <span className="ml-auto text-xs text-muted-foreground">
+            Tick takes to overlay them on the open take&apos;s rhythm grid
+          </span>
+        )}
+      </div>
+
+      {takes.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Takes you record or upload are kept here, in this browser, so you can come back to them.
+        </p>
+      ) : (
+        <div className="max-h-72 overflow-y-auto divide-y border rounded-lg">
+          {takes.map(take => (
+            <div
+              key={take.id}
+              className={`flex items-center gap-3 px-3 py-2 ${take.id === currentTakeId ? 'bg-blue-50' : ''}`}
+            >
+              <Checkbox
+                checked={compareIds.includes(take.id)}
+                onCheckedChange={(checked) => toggleCompare(take.id, checked === true)}
+                aria-label={`Compare ${take.name}`}
+              />
+
+              <div className="flex-1 min-w-0">
+                {editingId === take.id ? (
+                  <Input
+                    value={draftName}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    onBlur={() => finishRename(take)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') finishRename(take)
+                      if (e.key === 'Escape') setEditingId(null)
+                    }}
+                    className="h-7"
+                    autoFocus
+                  />
+                ) : (
+                  <button
+                    onClick={() => onOpen(take)}
+                    disabled={disabled}
+                    className="text-left text-sm font-medium text-gray-800 hover:text-blue-700 truncate block max-w-full"
+                  >
+                    {take.name}
+                  </button>
+                )}
+                <div className="flex flex-wrap items-center gap-1 mt-1 text-xs text-muted-foreground">
+                  <span>{new Date(take.createdAt).toLocaleString()}</span>
+                  <span>• {take.duration.toFixed(1)}s</span>
+                  {take.result?.estimatedBPM && (
+                    <Badge variant="secondary" className="text-xs">{take.result.estimatedBPM} BPM</Badge>
+                  )}
+                  {take.accuracy && (
+                    <Badge variant="secondary" className="text-xs">
+                      {take.accuracy.notes} notes • {take.accuracy.onGridPercent}% on grid
+                    </Badge>
+                  )}
+                  {take.accuracy?.practiceScore !== undefined && (
+                    <Badge variant="secondary" className="text-xs">Score {take.accuracy.practiceScore}</Badge>
+                  )}
+                  {take.warnings.length > 0 && (
+                    <span title={take.warnings.join('\n')}>
+                      <AlertTriangle className="h-3 w-3 text-yellow-600" />
+                    </span>
+                  )}
+                </div>
+              </div>
+
+              <div className="flex items-center gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => playingId === take.id ? stopPlayback() : playTake(take)}
+                  title={playingId === take.id ? 'Stop' : 'Play'}
+                >
+                  {playingId === take.id ? <Square className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => onReanalyze(take)} disabled={disabled} title="Re-analyze">
+                  <RefreshCw className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => startRename(take)} title="Rename">
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    if (playingId === take.id) stopPlayback()
+                    onDelete(take)
+                  }}
+                  disabled={disabled}
+                  title="Delete"
+                >
+                  <Trash2 className="h-4 w-4 text-red-600" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Ticked takes side by side */}
+      {compared.length >= 2 && (
+        <div className="mt-4 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-muted-foreground">
+                <th className="px-3 py-1 font-medium">Take</th>
+                <th className="px-3 py-1 font-medium">BPM</th>
+                <th className="px-3 py-1 font-medium">Notes</th>
+                <th className="px-3 py-1 font-medium">On grid</th>
+                <th className="px-3 py-1 font-medium">Avg offset</th>
+                <th className="px-3 py-1 font-medium">Score</th>
+              </tr>
+            </thead>
+            <tbody>
+              {compared.map(take => (
+                <tr key={take.id} className="border-t">
+                  <td className="px-3 py-1 font-medium">{take.name}</td>
+                  <td className="px-3 py-1 tabular-nums">{take.result?.estimatedBPM ?? '—'}</td>
+                  <td className="px-3 py-1 tabular-nums">{take.accuracy?.notes ?? '—'}</td>
+                  <td className="px-3 py-1 tabular-nums">{take.accuracy ? `${take.accuracy.onGridPercent}%` : '—'}</td>
+                  <td className="px-3 py-1 tabular-nums">{take.accuracy ? `${take.accuracy.meanAbsOffsetMs.toFixed(0)}ms` : '—'}</td>
+                  <td className="px-3 py-1 tabular-nums">{take.accuracy?.practiceScore ?? '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,214 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { toast } from "sonner"
+import { Hand, Loader2, Mic, Piano } from "lucide-react"
+import { createLiveOnsetDetector } from "@/lib/audio/live-onsets"
+import { getMicProcessing } from "@/lib/audio/mic-processing"
+import { recordingConstraints } from "@/lib/audio/recording"
+import { appendTap, estimateTapTempo, type TapEstimate } from "@/lib/tap-tempo"
+
+const DETECT_SECONDS = 6 // how long the mic listens for taps
+
+interface TapTempoProps {
+  onTempo: (bpm: number) => void
+  audioContext?: AudioContext | null // created on demand for mic detection if not given
+  deviceId?: string // input used for mic detection; the browser default if empty
+  disabled?: boolean
+}
+
+// Space, clicks and other buttons keep their own meaning inside form controls
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || /^(INPUT|TEXTAREA|SELECT|BUTTON)$/.test(target.tagName))
+
+export function TapTempo({ onTempo, audioContext, deviceId = '', disabled }: TapTempoProps) {
+  const [tapCount, setTapCount] = useState(0)
+  const [estimate, setEstimate] = useState<TapEstimate | null>(null)
+  const [midiEnabled, setMidiEnabled] = useState(false)
+  const [isDetecting, setIsDetecting] = useState(false)
+  const [heardTaps, setHeardTaps] = useState(0)
+
+  const tapsRef = useRef<number[]>([])
+  const tapButtonRef = useRef<HTMLButtonElement>(null)
+  const onTempoRef = useRef(onTempo)
+  const midiAccessRef = useRef<MIDIAccess | null>(null)
+  const ownContextRef = useRef<AudioContext | null>(null)
+  const stopDetectionRef = useRef<(() => void) | null>(null)
+
+  useEffect(() => {
+    onTempoRef.current = onTempo
+  }, [onTempo])
+
+  // `time` in seconds; event timestamps keep taps accurate even when rendering lags
+  const tap = useCallback((time: number) => {
+    tapsRef.current = appendTap(tapsRef.current, time)
+    setTapCount(tapsRef.current.length)
+    const next = estimateTapTempo(tapsRef.current)
+    setEstimate(next)
+    if (next) onTempoRef.current(next.bpm)
+  }, [])
+
+  // Space bar taps anywhere on the page, except while typing or on other buttons
+  useEffect(() => {
+    if (disabled) return
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.code !== 'Space' || event.repeat) return
+      if (event.target !== tapButtonRef.current && isEditable(event.target)) return
+      event.preventDefault()
+      tap(event.timeStamp / 1000)
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [disabled, tap])
+
+  // Any note-on from any connected MIDI input is a tap
+  const attachMidiInputs = useCallback((access: MIDIAccess) => {
+    access.inputs.forEach(input => {
+      input.onmidimessage = (event) => {
+        const data = event.data
+        if (data && (data[0] & 0xf0) === 0x90 && data[2] > 0) tap(event.timeStamp / 1000)
+      }
+    })
+  }, [tap])
+
+  const detachMidiInputs = useCallback(() => {
+    const access = midiAccessRef.current
+    if (!access) return
+    access.inputs.forEach(input => {
+      input.onmidimessage = null
+    })
+    access.onstatechange = null
+    midiAccessRef.current = null
+  }, [])
+
+  const toggleMidi = useCallback(async () => {
+    if (midiEnabled) {
+      detachMidiInputs()
+      setMidiEnabled(false)
+      return
+    }
+    if (!navigator.requestMIDIAccess) {
+      toast.error('This browser does not support MIDI input')
+      return
+    }
+    try {
+      const access = await navigator.requestMIDIAccess()
+      midiAccessRef.current = access
+      attachMidiInputs(access)
+      // Controllers plugged in later join in
+      access.onstatechange = () => attachMidiInputs(access)
+      setMidiEnabled(true)
+      if (access.inputs.size === 0) toast.info('MIDI is on - connect a controller and tap any key or pad')
+    } catch (error) {
+      console.error('Error enabling MIDI:', error)
+      toast.error('MIDI access was denied')
+    }
+  }, [midiEnabled, attachMidiInputs, detachMidiInputs])
+
+  // Listen to the mic for a few seconds and take the tempo from the taps it hears
+  const detectFromMic = useCallback(async () => {
+    setIsDetecting(true)
+    setHeardTaps(0)
+    let stream: MediaStream | null = null
+    let stopDetector: (() => void) | null = null
+    try {
+      stream = await navigator.mediaDevices.getUserMedia(recordingConstraints(deviceId, getMicProcessing(deviceId)))
+      const context = audioContext || ownContextRef.current || (ownContextRef.current = new (window.AudioContext || (window as unknown as typeof AudioContext))())
+      if (context.state === 'suspended') await context.resume()
+
+      const times: number[] = []
+      const detector = await createLiveOnsetDetector(context, stream, (onset) => {
+        times.push(onset.time)
+        setHeardTaps(times.length)
+      })
+      if (!detector) {
+        toast.error('Tap detection needs AudioWorklet support in this browser')
+        return
+      }
+      stopDetector = detector.stop
+
+      await new Promise<void>(resolve => {
+        const timer = setTimeout(resolve, DETECT_SECONDS * 1000)
+        stopDetectionRef.current = () => {
+          clearTimeout(timer)
+          resolve()
+        }
+      })
+
+      const detected = estimateTapTempo(times.reduce(appendTap, [] as number[]))
+      console.log('👏 Mic taps:', times.length, detected)
+      if (detected) {
+        tapsRef.current = []
+        setTapCount(0)
+        setEstimate(detected)
+        onTempoRef.current(detected.bpm)
+      } else {
+        toast.warning('Not enough steady taps heard - tap at least four times, evenly')
+      }
+    } catch (error) {
+      console.error('Error detecting taps:', error)
+      toast.error('Could not listen to the microphone')
+    } finally {
+      stopDetectionRef.current = null
+      stopDetector?.()
+      stream?.getTracks().forEach(track => track.stop())
+      setIsDetecting(false)
+    }
+  }, [audioContext, deviceId])
+
+  // Release MIDI, the mic and any context of our own on unmount
+  useEffect(() => {
+    return () => {
+      stopDetectionRef.current?.()
+      detachMidiInputs()
+      ownContextRef.current?.close()
+    }
+  }, [detachMidiInputs])
+
+  return (
+    <div className="flex items-center gap-2">
+      <button
+        ref={tapButtonRef}
+        onPointerDown={(e) => tap(e.timeStamp / 1000)}
+        disabled={disabled}
+        title="Click, press Space or hit a MIDI note in time"
+        className="flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 active:scale-95 transition-transform disabled:opacity-50 disabled:cursor-not-allowed select-none"
+      >
+        <Hand className="h-4 w-4" />
+        Tap
+      </button>
+
+      <div className="flex-1 text-xs text-gray-600 tabular-nums">
+        {isDetecting
+          ? `Listening... ${heardTaps} tap${heardTaps === 1 ? '' : 's'} heard`
+          : estimate
+            ? `${estimate.bpm} BPM from ${estimate.intervals + 1} taps${estimate.rejected > 0 ? ` (${estimate.rejected} ignored)` : ''}`
+            : tapCount > 0
+              ? `${tapCount} tap${tapCount === 1 ? '' : 's'} - keep going`
+              : 'Tap the tempo: click, Space or MIDI'}
+      </div>
+
+      <button
+        onClick={toggleMidi}
+        disabled={disabled}
+        title={midiEnabled ? 'Stop listening to MIDI' : 'Tap with a MIDI key or pad'}
+        className={`h-8 px-2 rounded-lg text-xs font-medium flex items-center gap-1 ${
+          midiEnabled ? 'bg-blue-100 text-blue-700' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+        } disabled:opacity-50 disabled:cursor-not-allowed`}
+      >
+        <Piano className="h-3 w-3" />
+        MIDI
+      </button>
+
+      <button
+        onClick={detectFromMic}
+        disabled={disabled || isDetecting}
+        title={`Tap or clap near the mic for ${DETECT_SECONDS} seconds`}
+        className="h-8 px-2 rounded-lg text-xs font-medium flex items-center gap-1 bg-gray-100 text-gray-600 hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isDetecting ? <Loader2 className="h-3 w-3 animate-spin" /> : <Mic className="h-3 w-3" />}
+        Detect
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,69 @@
+"use client"
+
+import { useMemo } from "react"
+import { CartesianGrid, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts"
+import { TrendingUp } from "lucide-react"
+import type { TempoPoint } from "@/lib/analysis"
+
+interface TempoMapChartProps {
+  tempoMap: TempoPoint[]
+}
+
+export function TempoMapChart({ tempoMap }: TempoMapChartProps) {
+  const summary = useMemo(() => {
+    if (tempoMap.length < 2) return null
+
+    const bpms = tempoMap.map(point => point.bpm)
+    const average = bpms.reduce((sum, bpm) => sum + bpm, 0) / bpms.length
+    const min = Math.min(...bpms)
+    const max = Math.max(...bpms)
+    // Keep a few BPM of headroom so a steady take doesn't look like a wild swing
+    const padding = Math.max(5, (max - min) * 0.2)
+
+    return {
+      average: Math.round(average * 10) / 10,
+      min,
+      max,
+      domain: [Math.floor(min - padding), Math.ceil(max + padding)] as [number, number],
+      data: tempoMap.map(point => ({ time: Math.round(point.time * 100) / 100, bpm: point.bpm }))
+    }
+  }, [tempoMap])
+
+  if (!summary) return null
+
+  return (
+    <div className="mt-4 p-4 border rounded-lg">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="font-medium flex items-center gap-2">
+          <TrendingUp className="h-4 w-4" />
+          Tempo Over Time
+        </h4>
+        <div className="text-sm text-muted-foreground">
+          {summary.min}–{summary.max} BPM (avg {summary.average})
+        </div>
+      </div>
+      <div className="h-40">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={summary.data} margin={{ top: 5, right: 10, bottom: 5, left: -20 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+            <XAxis
+              dataKey="time"
+              type="number"
+              domain={['dataMin', 'dataMax']}
+              tickFormatter={(time: number) => `${time.toFixed(1)}s`}
+              fontSize={12}
+            />
+            <YAxis domain={summary.domain} fontSize={12} />
+            <Tooltip
+              formatter={(bpm: number) => [`${bpm} BPM`, 'Tempo']}
+              labelFormatter={(time: number) => `${time.toFixed(2)}s`}
+            />
+            {/* Above the line = rushing, below = dragging */}
+            <ReferenceLine y={summary.average} stroke="#9333ea" strokeDasharray="4 4" />
+            <Line type="monotone" dataKey="bpm" stroke="#2563eb" strokeWidth={2} dot={false} isAnimationActive={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,111 @@
+"use client"
+
+import { useState } from "react"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  TIME_SIGNATURE_PRESETS,
+  canRegroup,
+  findPreset,
+  formatGrouping,
+  formatTimeSignature,
+  parseGrouping,
+  timeSignatureFromPreset,
+  type TimeSignature
+} from "@/lib/time-signature"
+
+interface TimeSignatureSelectorProps {
+  value: TimeSignature
+  onChange: (timeSignature: TimeSignature) => void
+  disabled?: boolean
+}
+
+const CUSTOM_GROUPING = 'custom'
+
+export function TimeSignatureSelector({ value, onChange, disabled }: TimeSignatureSelectorProps) {
+  const [customText, setCustomText] = useState<string | null>(null) // set while typing a grouping
+  const preset = findPreset(value)
+  const presetGroupings = preset?.groupings ?? [value.grouping]
+  // A grouping entered earlier stays on the list next to the preset ones
+  const groupings = presetGroupings.some(g => formatGrouping(g) === formatGrouping(value.grouping))
+    ? presetGroupings
+    : [...presetGroupings, value.grouping]
+  const customGrouping = customText !== null ? parseGrouping(customText, value.numerator) : null
+
+  const handleSignatureChange = (label: string) => {
+    const next = TIME_SIGNATURE_PRESETS.find(p => formatTimeSignature(timeSignatureFromPreset(p)) === label)
+    setCustomText(null)
+    if (next) onChange(timeSignatureFromPreset(next))
+  }
+
+  const handleGroupingChange = (label: string) => {
+    if (label === CUSTOM_GROUPING) {
+      setCustomText(formatGrouping(value.grouping))
+      return
+    }
+    const grouping = groupings.find(g => formatGrouping(g) === label)
+    if (grouping) onChange({ ...value, grouping: [...grouping] })
+  }
+
+  // Only a grouping that fills the bar is applied; anything else is left to correct
+  const applyCustomGrouping = () => {
+    if (!customGrouping) return
+    onChange({ ...value, grouping: customGrouping })
+    setCustomText(null)
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select value={formatTimeSignature(value)} onValueChange={handleSignatureChange} disabled={disabled}>
+        <SelectTrigger className="w-24">
+          <SelectValue placeholder="Meter" />
+        </SelectTrigger>
+        <SelectContent>
+          {TIME_SIGNATURE_PRESETS.map(p => {
+            const label = formatTimeSignature(timeSignatureFromPreset(p))
+            return (
+              <SelectItem key={label} value={label}>
+                {label}
+              </SelectItem>
+            )
+          })}
+        </SelectContent>
+      </Select>
+
+      {/* Beat grouping only matters where there is more than one way to feel the bar */}
+      {canRegroup(value) && (customText === null ? (
+        <Select value={formatGrouping(value.grouping)} onValueChange={handleGroupingChange} disabled={disabled}>
+          <SelectTrigger className="w-28" title="Beat grouping">
+            <SelectValue placeholder="Grouping" />
+          </SelectTrigger>
+          <SelectContent>
+            {groupings.map(g => (
+              <SelectItem key={formatGrouping(g)} value={formatGrouping(g)}>
+                {formatGrouping(g)}
+              </SelectItem>
+            ))}
+            <SelectItem value={CUSTOM_GROUPING}>Custom...</SelectItem>
+          </SelectContent>
+        </Select>
+      ) : (
+        <Input
+          autoFocus
+          value={customText}
+          onChange={(e) => setCustomText(e.target.value)}
+          onBlur={() => customGrouping ? applyCustomGrouping() : setCustomText(null)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') applyCustomGrouping()
+            if (e.key === 'Escape') setCustomText(null)
+          }}
+          placeholder={formatGrouping(value.grouping)}
+          aria-invalid={!customGrouping}
+          className={`w-28 h-10 ${customGrouping ? '' : 'border-red-500 focus-visible:ring-red-500'}`}
+          title={customGrouping
+            ? 'Enter to apply, Escape to cancel'
+            : `Groups of counts, e.g. ${formatGrouping(presetGroupings[0])}, adding up to ${value.numerator}`}
+          disabled={disabled}
+        />
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,23 @@
+import { analyzeAudio } from "./analyze"
+import type { AnalysisWorkerRequest, AnalysisWorkerResponse } from "./types"
+
+// Runs the analysis pipeline off the main thread. Cancellation is handled by the
+// client terminating this worker, so a request always runs to completion here.
+const post = (response: AnalysisWorkerResponse) => postMessage(response)
+
+self.onmessage = (event: MessageEvent<AnalysisWorkerRequest>) => {
+  const { id, channelData, sampleRate, options } = event.data
+  try {
+    const analysis = analyzeAudio(channelData, sampleRate, {
+      ...options,
+      detection: {
+        ...options.detection,
+        // The envelope dominates the cost; leave the last few percent for tempo and refinement
+        onProgress: fraction => post({ type: 'progress', id, progress: fraction * 0.95 }),
+      },
+    })
+    post({ type: 'result', id, analysis })
+  } catch (error) {
+    post({ type: 'error', id, message: error instanceof Error ? error.message : 'Analysis failed' })
+  }
+}
@@ -0,0 +1,22 @@
+import { computeOnsetEnvelope, pickOnsets, refineOnsets } from "./onsets"
+import { trackBeats } from "./beats"
+import { estimateTempo } from "./tempo"
+import type { AudioAnalysis, AudioAnalysisOptions } from "./types"
+
+// Onsets, tempo and beats from a single pass over the spectral-flux envelope
+export function analyzeAudio(
+  data: Float32Array,
+  sampleRate: number,
+  options: AudioAnalysisOptions = {}
+): AudioAnalysis {
+  const envelope = computeOnsetEnvelope(data, sampleRate, options.detection)
+  const tempo = estimateTempo(envelope, options.tempo)
+  const raw = pickOnsets(envelope, options.detection)
+  const onsets = refineOnsets(data, sampleRate, raw, {
+    ...options.refinement,
+    bpm: options.refinement?.bpm ?? options.bpm ?? tempo?.bpm,
+  })
+  const bpm = options.bpm ?? tempo?.bpm
+  const beatTrack = bpm ? trackBeats(envelope, bpm, options.beats) : null
+  return { onsets, tempo, beatTrack }
+}
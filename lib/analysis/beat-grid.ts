@@ -0,0 +1,51 @@
+import type { BeatTrack, TempoPoint } from "./types"
+
+// Evenly spaced beats covering [0, duration], phase-locked so that `downbeat` is a bar start
+export function createUniformBeatTrack(bpm: number, duration: number, downbeat = 0, beatsPerBar = 4): BeatTrack {
+  const secondsPerBeat = 60 / bpm
+  const beatsBefore = Math.floor(downbeat / secondsPerBeat + 1e-9)
+  const first = downbeat - beatsBefore * secondsPerBeat
+  const beats: number[] = []
+  for (let t = first; t <= duration + 1e-9; t += secondsPerBeat) beats.push(t)
+  if (beats.length < 2) beats.push(first + secondsPerBeat)
+  return { beats, downbeatPhase: beatsBefore % beatsPerBar }
+}
+
+// Time of a fractional beat position (0 = beats[0]); extrapolates past either end
+// using the nearest inter-beat interval
+export function beatTimeAt(beats: number[], position: number): number {
+  const last = beats.length - 1
+  if (position <= 0) return beats[0] + position * (beats[1] - beats[0])
+  if (position >= last) return beats[last] + (position - last) * (beats[last] - beats[last - 1])
+  const i = Math.floor(position)
+  return beats[i] + (position - i) * (beats[i + 1] - beats[i])
+}
+
+// Fractional beat position of a time; inverse of beatTimeAt
+export function beatPositionAt(beats: number[], time: number): number {
+  const last = beats.length - 1
+  if (time <= beats[0]) return (time - beats[0]) / (beats[1] - beats[0])
+  if (time >= beats[last]) return last + (time - beats[last]) / (beats[last] - beats[last - 1])
+  let lo = 0
+  let hi = last
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1
+    if (beats[mid] <= time) lo = mid
+    else hi = mid
+  }
+  return lo + (time - beats[lo]) / (beats[lo + 1] - beats[lo])
+}
+
+// Instantaneous tempo between consecutive beats, median-smoothed over `smoothing` intervals
+export function computeTempoMap(beats: number[], smoothing = 3): TempoPoint[] {
+  const intervals = beats.slice(1).map((t, i) => t - beats[i])
+  const half = Math.floor(smoothing / 2)
+  return intervals.map((_, i) => {
+    const window = intervals.slice(Math.max(0, i - half), i + half + 1).sort((a, b) => a - b)
+    const interval = window[Math.floor(window.length / 2)]
+    return {
+      time: (beats[i] + beats[i + 1]) / 2,
+      bpm: Math.round(600 / interval) / 10,
+    }
+  })
+}
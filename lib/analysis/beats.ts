@@ -0,0 +1,160 @@
+import { estimateTempo } from "./tempo"
+import type { BeatTrack, BeatTrackingOptions, OnsetEnvelope } from "./types"
+
+export const DEFAULT_BEAT_TRACKING_OPTIONS: BeatTrackingOptions = {
+  tightness: 100,
+  beatsPerBar: 4,
+  maxDrift: 0.3,
+  driftWindow: 6,
+}
+
+// Mean-removed, unit-variance envelope smoothed over ~1/32 of a beat
+function beatLocalScore(envelope: OnsetEnvelope, period: number): Float64Array {
+  const { values } = envelope
+  let mean = 0
+  for (let i = 0; i < values.length; i++) mean += values[i]
+  mean /= values.length || 1
+  let variance = 0
+  for (let i = 0; i < values.length; i++) variance += (values[i] - mean) ** 2
+  const std = Math.sqrt(variance / (values.length || 1)) || 1
+
+  const sigma = Math.max(1, period / 32)
+  const radius = Math.ceil(sigma * 3)
+  const kernel: number[] = []
+  for (let k = -radius; k <= radius; k++) kernel.push(Math.exp(-0.5 * (k / sigma) ** 2))
+
+  const score = new Float64Array(values.length)
+  for (let i = 0; i < values.length; i++) {
+    let sum = 0
+    for (let k = -radius; k <= radius; k++) {
+      const j = i + k
+      if (j >= 0 && j < values.length) sum += kernel[k + radius] * (values[j] - mean) / std
+    }
+    score[i] = sum
+  }
+  return score
+}
+
+// Dynamic-programming pass (Ellis 2007): the beat frame sequence that best balances
+// landing on strong onsets against keeping each interval near the local period
+function dynamicBeatFrames(local: Float64Array, periodAt: (frame: number) => number, tightness: number): number[] {
+  const n = local.length
+  const cumulative = new Float64Array(n)
+  const backlink = new Int32Array(n).fill(-1)
+
+  for (let t = 0; t < n; t++) {
+    const period = periodAt(t)
+    let best = -Infinity
+    let bestPrev = -1
+    for (let prev = t - Math.round(period * 2); prev <= t - Math.round(period / 2); prev++) {
+      if (prev < 0) continue
+      const ratio = Math.log((t - prev) / period)
+      const candidate = cumulative[prev] - tightness * ratio * ratio
+      if (candidate > best) {
+        best = candidate
+        bestPrev = prev
+      }
+    }
+    cumulative[t] = local[t] + (bestPrev >= 0 ? Math.max(0, best) : 0)
+    backlink[t] = bestPrev >= 0 && best > 0 ? bestPrev : -1
+  }
+
+  // End on the last local maximum of the cumulative score that is reasonably strong
+  const maxima: number[] = []
+  for (let t = 1; t < n - 1; t++) {
+    if (cumulative[t] > cumulative[t - 1] && cumulative[t] >= cumulative[t + 1]) maxima.push(cumulative[t])
+  }
+  const sortedMaxima = [...maxima].sort((a, b) => a - b)
+  const threshold = 0.5 * (sortedMaxima[Math.floor(sortedMaxima.length / 2)] || 0)
+  let end = n - 1
+  for (let t = n - 2; t > 0; t--) {
+    if (cumulative[t] > cumulative[t - 1] && cumulative[t] >= cumulative[t + 1] && cumulative[t] > threshold) {
+      end = t
+      break
+    }
+  }
+
+  const frames: number[] = []
+  for (let t = end; t >= 0; t = backlink[t]) {
+    frames.push(t)
+    if (backlink[t] < 0) break
+  }
+  return frames.reverse()
+}
+
+// Local beat period at every frame, from tempo estimates over overlapping windows of
+// the envelope. The prior is centred on the global tempo and narrow, so the windows
+// stay on the same metrical level and only follow genuine drift.
+function localPeriods(envelope: OnsetEnvelope, bpm: number, maxDrift: number, windowSeconds: number): Float64Array {
+  const { values, frameRate } = envelope
+  const n = values.length
+  const period = 60 * frameRate / bpm
+  const size = Math.round(windowSeconds * frameRate)
+  const hop = Math.max(1, Math.round(size / 4))
+
+  const centres: number[] = []
+  const estimates: number[] = []
+  for (let start = 0; start + size <= n; start += hop) {
+    const estimate = estimateTempo(
+      { values: values.subarray(start, start + size), frameRate, startTime: 0 },
+      { minBPM: bpm / (1 + maxDrift), maxBPM: bpm * (1 + maxDrift), preferredBPM: bpm, priorOctaves: 0.5 }
+    )
+    if (!estimate) continue
+    centres.push(start + size / 2)
+    estimates.push(60 * frameRate / estimate.bpm)
+  }
+
+  const periods = new Float64Array(n).fill(period)
+  if (centres.length === 0) return periods
+  let k = 0
+  for (let t = 0; t < n; t++) {
+    while (k < centres.length - 1 && centres[k + 1] <= t) k++
+    if (t <= centres[0]) periods[t] = estimates[0]
+    else if (k >= centres.length - 1) periods[t] = estimates[centres.length - 1]
+    else {
+      const frac = (t - centres[k]) / (centres[k + 1] - centres[k])
+      periods[t] = estimates[k] * (1 - frac) + estimates[k + 1] * frac
+    }
+  }
+  return periods
+}
+
+// Beat tracker. The target period follows the local tempo when the take is long enough
+// to measure it; the downbeat phase is the bar position with the most onset energy.
+export function trackBeats(
+  envelope: OnsetEnvelope,
+  bpm: number,
+  options: Partial<BeatTrackingOptions> = {}
+): BeatTrack | null {
+  const { tightness, beatsPerBar, maxDrift, driftWindow } = { ...DEFAULT_BEAT_TRACKING_OPTIONS, ...options }
+  const { frameRate, startTime } = envelope
+  const period = 60 * frameRate / bpm
+  const n = envelope.values.length
+  if (n < period * 2 || !isFinite(period) || period <= 0) return null
+
+  const local = beatLocalScore(envelope, period)
+  const followDrift = maxDrift > 0 && n >= driftWindow * frameRate * 1.5
+  const periods = followDrift ? localPeriods(envelope, bpm, maxDrift, driftWindow) : null
+  const frames = dynamicBeatFrames(local, t => periods ? periods[t] : period, tightness)
+  if (frames.length < 2) return null
+
+  const beats = frames.map(f => startTime + f / frameRate)
+
+  // Downbeat phase: the bar position whose beats carry the most onset strength.
+  // Beats in the first analysis window are skipped (the envelope can't see an
+  // attack at t=0), and near-ties go to the earliest phase since takes usually
+  // start on the one.
+  const reach = Math.max(1, Math.round(period / 8))
+  const firstFullFrame = Math.ceil(0.025 * frameRate)
+  const phaseStrength = new Array(beatsPerBar).fill(0)
+  frames.forEach((frame, i) => {
+    if (frame < firstFullFrame) return
+    let peak = 0
+    for (let j = Math.max(0, frame - reach); j <= Math.min(n - 1, frame + reach); j++) peak = Math.max(peak, local[j])
+    phaseStrength[i % beatsPerBar] += peak
+  })
+  const strongest = Math.max(...phaseStrength)
+  const downbeatPhase = Math.max(0, phaseStrength.findIndex(v => v >= strongest * 0.9))
+
+  return { beats, downbeatPhase: Math.min(downbeatPhase, beats.length - 1) }
+}
@@ -0,0 +1,74 @@
+export interface FFT {
+  size: number
+  // In-place radix-2 transform of (real, imag); both arrays must have length `size`
+  transform: (real: Float64Array, imag: Float64Array) => void
+  // Log-magnitude of the first size/2 bins of a real frame, written into `out`
+  logMagnitude: (frame: Float32Array, out: Float32Array) => void
+}
+
+// Iterative radix-2 Cooley-Tukey FFT with precomputed twiddles and bit-reversal table.
+// Buffers are allocated once per instance, so reuse it across frames.
+export function createFFT(size: number): FFT {
+  if (size < 2 || (size & (size - 1)) !== 0) {
+    throw new Error(`FFT size must be a power of two, got ${size}`)
+  }
+
+  const half = size / 2
+  const cosTable = new Float64Array(half)
+  const sinTable = new Float64Array(half)
+  for (let i = 0; i < half; i++) {
+    cosTable[i] = Math.cos(2 * Math.PI * i / size)
+    sinTable[i] = -Math.sin(2 * Math.PI * i / size)
+  }
+
+  const bits = Math.log2(size)
+  const reversed = new Uint32Array(size)
+  for (let i = 0; i < size; i++) {
+    let r = 0
+    for (let b = 0; b < bits; b++) r = (r << 1) | ((i >>> b) & 1)
+    reversed[i] = r
+  }
+
+  const real = new Float64Array(size)
+  const imag = new Float64Array(size)
+
+  const transform = (re: Float64Array, im: Float64Array) => {
+    for (let i = 0; i < size; i++) {
+      const j = reversed[i]
+      if (j > i) {
+        let t = re[i]; re[i] = re[j]; re[j] = t
+        t = im[i]; im[i] = im[j]; im[j] = t
+      }
+    }
+
+    for (let len = 2; len <= size; len <<= 1) {
+      const halfLen = len >>> 1
+      const step = size / len
+      for (let start = 0; start < size; start += len) {
+        for (let k = 0; k < halfLen; k++) {
+          const wr = cosTable[k * step]
+          const wi = sinTable[k * step]
+          const a = start + k
+          const b = a + halfLen
+          const tr = re[b] * wr - im[b] * wi
+          const ti = re[b] * wi + im[b] * wr
+          re[b] = re[a] - tr
+          im[b] = im[a] - ti
+          re[a] += tr
+          im[a] += ti
+        }
+      }
+    }
+  }
+
+  const logMagnitude = (frame: Float32Array, out: Float32Array) => {
+    real.set(frame)
+    imag.fill(0)
+    transform(real, imag)
+    for (let k = 0; k < half; k++) {
+      out[k] = Math.log1p(Math.sqrt(real[k] * real[k] + imag[k] * imag[k]))
+    }
+  }
+
+  return { size, transform, logMagnitude }
+}
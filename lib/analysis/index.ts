@@ -0,0 +1,16 @@
+export * from "./types"
+export { analyzeAudio } from "./analyze"
+export {
+  analyzeOnsets,
+  computeOnsetEnvelope,
+  detectOnsets,
+  pickOnsets,
+  refineOnsets,
+  DEFAULT_DETECTION_OPTIONS,
+  DEFAULT_REFINEMENT_OPTIONS,
+} from "./onsets"
+export { estimateTempo, DEFAULT_TEMPO_OPTIONS } from "./tempo"
+export { trackBeats, DEFAULT_BEAT_TRACKING_OPTIONS } from "./beats"
+export { beatPositionAt, beatTimeAt, computeTempoMap, createUniformBeatTrack } from "./beat-grid"
+export { createFFT, type FFT } from "./fft"
+export { createAnalysisWorker, isAbortError, type AnalysisWorkerClient, type AnalyzeInWorkerOptions } from "./worker-client"
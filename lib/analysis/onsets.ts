@@ -0,0 +1,219 @@
+import { createFFT } from "./fft"
+import type { OnsetAnalysisOptions, OnsetData, OnsetDetectionOptions, OnsetEnvelope, OnsetRefinementOptions } from "./types"
+
+export const DEFAULT_DETECTION_OPTIONS: OnsetDetectionOptions = {
+  fftSize: 1024,
+  hopSize: 256,
+  thresholdWindow: 0.3,
+  thresholdDeviations: 0.6,
+  highFactor: 1.25,
+  lowFactor: 0.80,
+  minSeparation: 0.12,
+}
+
+export const DEFAULT_REFINEMENT_OPTIONS: OnsetRefinementOptions = {
+  energyWindow: 0.020,
+  madDeviations: 2,
+  fallbackCount: 8,
+  minSeparation: 0.18,
+  maxSeparation: 0.60,
+  ioiFactor: 0.45,
+}
+
+// Spectral-flux onset strength envelope from log-magnitude spectra
+export function computeOnsetEnvelope(
+  data: Float32Array,
+  sampleRate: number,
+  options: Partial<OnsetDetectionOptions> = {}
+): OnsetEnvelope {
+  const { fftSize, hopSize, onProgress } = { ...DEFAULT_DETECTION_OPTIONS, ...options }
+
+  // Hann window
+  const window = new Float32Array(fftSize)
+  for (let i = 0; i < fftSize; i++) window[i] = 0.5 * (1 - Math.cos(2 * Math.PI * i / (fftSize - 1)))
+
+  // Log-magnitude spectra, one frame at a time with reused buffers
+  const fft = createFFT(fftSize)
+  const frame = new Float32Array(fftSize)
+  let prev = new Float32Array(fftSize / 2)
+  let cur = new Float32Array(fftSize / 2)
+
+  // Spectral flux (half-wave rectified differences)
+  const totalFrames = Math.max(1, Math.floor((data.length - fftSize) / hopSize) + 1)
+  const values = new Float64Array(Math.max(0, totalFrames - 1))
+  const progressEvery = Math.max(1, Math.floor(totalFrames / 50))
+  let frameIndex = 0
+  for (let pos = 0; pos + fftSize <= data.length; pos += hopSize) {
+    if (onProgress && frameIndex % progressEvery === 0) onProgress(frameIndex / totalFrames)
+    for (let i = 0; i < fftSize; i++) frame[i] = data[pos + i] * window[i]
+    fft.logMagnitude(frame, cur)
+    if (frameIndex > 0) {
+      let v = 0
+      for (let b = 1; b < cur.length; b++) {
+        const d = cur[b] - prev[b]
+        if (d > 0) v += d
+      }
+      values[frameIndex - 1] = v
+    }
+    frameIndex++
+    const swap = prev
+    prev = cur
+    cur = swap
+  }
+  onProgress?.(1)
+
+  // values[i] is the flux into frame i + 1
+  return { values, frameRate: sampleRate / hopSize, startTime: hopSize / sampleRate }
+}
+
+// Adaptive-threshold peak picking on an onset envelope
+export function pickOnsets(
+  envelope: OnsetEnvelope,
+  options: Partial<OnsetDetectionOptions> = {}
+): OnsetData[] {
+  const { thresholdWindow, thresholdDeviations, highFactor, lowFactor, minSeparation } = {
+    ...DEFAULT_DETECTION_OPTIONS,
+    ...options,
+  }
+  const flux = envelope.values
+  const { frameRate, startTime } = envelope
+
+  // Local adaptive threshold
+  const win = Math.max(8, Math.floor(thresholdWindow * frameRate))
+  const thr: number[] = new Array(flux.length).fill(0)
+  let sum = 0
+  let sumSq = 0
+  for (let i = 0; i < flux.length; i++) {
+    sum += flux[i]
+    sumSq += flux[i] * flux[i]
+    if (i >= win) {
+      const r = flux[i - win]
+      sum -= r
+      sumSq -= r * r
+    }
+    const n = Math.min(i + 1, win)
+    const mean = sum / n
+    const variance = Math.max(0, sumSq / n - mean * mean)
+    const std = Math.sqrt(variance)
+    thr[i] = mean + thresholdDeviations * std
+  }
+
+  // Peak picking with hysteresis to avoid double-hits on sustains
+  const minSepFrames = Math.floor(minSeparation * frameRate)
+  const picked: { frame: number; value: number }[] = []
+  let armed = true
+  let last = -minSepFrames
+  for (let i = 1; i < flux.length - 1; i++) {
+    const hi = thr[i] * highFactor
+    const lo = thr[i] * lowFactor
+    if (armed) {
+      if (flux[i] > hi && flux[i] > flux[i - 1] && flux[i] > flux[i + 1]) {
+        if (i - last >= minSepFrames) {
+          picked.push({ frame: i, value: flux[i] })
+          last = i
+          armed = false
+        }
+      }
+    } else if (flux[i] < lo) {
+      armed = true
+    }
+  }
+
+  const peak = picked.reduce((max, p) => Math.max(max, p.value), 0)
+  return picked
+    .map((p, idx) => ({
+      time: startTime + p.frame / frameRate,
+      index: idx,
+      strength: peak > 0 ? p.value / peak : 0,
+    }))
+    .sort((a, b) => a.time - b.time)
+}
+
+// Spectral flux with local adaptive threshold and log magnitude
+export function detectOnsets(
+  data: Float32Array,
+  sampleRate: number,
+  options: Partial<OnsetDetectionOptions> = {}
+): OnsetData[] {
+  return pickOnsets(computeOnsetEnvelope(data, sampleRate, options), options)
+}
+
+// Drop weak detections using local energy and merge events closer than the playing allows
+export function refineOnsets(
+  data: Float32Array,
+  sampleRate: number,
+  onsets: OnsetData[],
+  options: Partial<OnsetRefinementOptions> = {}
+): OnsetData[] {
+  const { energyWindow, madDeviations, fallbackCount, minSeparation, maxSeparation, ioiFactor, bpm } = {
+    ...DEFAULT_REFINEMENT_OPTIONS,
+    ...options,
+  }
+
+  const win = Math.max(1, Math.floor(sampleRate * energyWindow))
+  // local energies
+  const energies = onsets.map(o => {
+    const c = Math.floor(o.time * sampleRate)
+    const i0 = Math.max(0, c - win)
+    const i1 = Math.min(data.length - 1, c + win)
+    let sum = 0
+    for (let i = i0; i <= i1; i++) sum += Math.abs(data[i])
+    return sum / (i1 - i0 + 1)
+  })
+  // robust threshold
+  const sorted = [...energies].sort((a, b) => a - b)
+  const med = sorted[Math.floor(sorted.length / 2)] || 0
+  const devs = sorted.map(v => Math.abs(v - med)).sort((a, b) => a - b)
+  const mad = devs[Math.floor(devs.length / 2)] || 0
+  const eThresh = med + madDeviations * mad
+
+  // filter weak
+  const strong: (OnsetData & { e: number })[] = []
+  onsets.forEach((o, i) => { if (energies[i] >= eThresh) strong.push({ ...o, e: energies[i] }) })
+  if (strong.length === 0 && onsets.length > 0) {
+    // fallback: keep the strongest few to avoid empty result
+    const tmp = onsets.map((o, i) => ({ ...o, e: energies[i] }))
+    tmp.sort((a, b) => b.e - a.e)
+    strong.push(...tmp.slice(0, Math.min(fallbackCount, tmp.length)))
+    strong.sort((a, b) => a.time - b.time)
+  }
+
+  // Merge close events using adaptive min separation
+  // Prefer robust estimate from median inter-onset interval of strong peaks
+  let minSepSec = minSeparation
+  if (strong.length >= 3) {
+    const times = strong.map(s => s.time)
+    const intervals: number[] = []
+    for (let i = 1; i < times.length; i++) intervals.push(times[i] - times[i - 1])
+    intervals.sort((a, b) => a - b)
+    const medianIOI = intervals[Math.floor(intervals.length / 2)]
+    if (isFinite(medianIOI) && medianIOI > 0) {
+      minSepSec = Math.max(minSeparation, Math.min(maxSeparation, ioiFactor * medianIOI))
+    }
+  } else if (bpm) {
+    // Fallback to BPM-informed spacing (fraction of an eighth note)
+    minSepSec = Math.max(minSeparation, ioiFactor * (60 / (bpm * 2)))
+  }
+  const merged: (OnsetData & { e: number })[] = []
+  for (const o of strong) {
+    if (merged.length === 0) { merged.push(o); continue }
+    const last = merged[merged.length - 1]
+    if (o.time - last.time < minSepSec) {
+      // keep stronger
+      if (o.e > last.e) merged[merged.length - 1] = o
+    } else {
+      merged.push(o)
+    }
+  }
+  return merged.map((m, i) => ({ time: m.time, index: i, strength: m.strength }))
+}
+
+// Full onset pipeline: spectral-flux detection followed by energy refinement
+export function analyzeOnsets(
+  data: Float32Array,
+  sampleRate: number,
+  options: OnsetAnalysisOptions = {}
+): OnsetData[] {
+  const raw = detectOnsets(data, sampleRate, options.detection)
+  return refineOnsets(data, sampleRate, raw, options.refinement)
+}
@@ -0,0 +1,206 @@
+import type { OnsetEnvelope, TempoCandidate, TempoEstimate, TempoEstimationOptions } from "./types"
+
+export const DEFAULT_TEMPO_OPTIONS: TempoEstimationOptions = {
+  minBPM: 50,
+  maxBPM: 220,
+  preferredBPM: 95,
+  priorOctaves: 1,
+  maxCandidates: 5,
+  beatDivision: 2,
+}
+
+// Tempo ratios tried around each periodicity peak: octaves, 3:2 and 4:3 (the beat vs. a
+// triplet or dotted pulse), 5:4 and 5:2 for quintuplet grids
+const RELATED_RATIOS = [1, 2, 1 / 2, 3, 1 / 3, 4, 1 / 4, 3 / 2, 2 / 3, 4 / 3, 3 / 4, 5 / 4, 4 / 5, 5 / 2, 2 / 5]
+const PHASE_BINS = 96
+// How far (s) an onset may sit from a grid position and still count as on it
+const GRID_TOLERANCE = 0.012
+
+// Remove the slowly varying part of the envelope so sustained notes don't dominate
+function highPassEnvelope(envelope: OnsetEnvelope): Float64Array {
+  const { values, frameRate } = envelope
+  const half = Math.max(1, Math.round(frameRate * 0.25))
+  const out = new Float64Array(values.length)
+  let sum = 0
+  let lo = 0
+  let hi = -1
+  for (let i = 0; i < values.length; i++) {
+    while (hi < Math.min(values.length - 1, i + half)) sum += values[++hi]
+    while (lo < i - half) sum -= values[lo++]
+    const mean = sum / (hi - lo + 1)
+    out[i] = Math.max(0, values[i] - mean)
+  }
+  return out
+}
+
+// Unbiased autocorrelation for lags 1..maxLag
+function autocorrelate(signal: Float64Array, maxLag: number): Float64Array {
+  const acf = new Float64Array(maxLag + 1)
+  for (let lag = 1; lag <= maxLag; lag++) {
+    let sum = 0
+    for (let i = lag; i < signal.length; i++) sum += signal[i] * signal[i - lag]
+    acf[lag] = sum / (signal.length - lag)
+  }
+  return acf
+}
+
+// Share of the onset energy that lands on the beat grid of `period` frames at its best
+// phase. Beats count fully and the expected subdivision partly (plus 16ths in straight
+// time), so a tempo is favoured when the playing reads as beats and that subdivision.
+function metricalFit(signal: Float64Array, period: number, frameRate: number, division: number): number {
+  const folded = new Float64Array(PHASE_BINS)
+  let total = 0
+  for (let i = 0; i < signal.length; i++) {
+    if (signal[i] <= 0) continue
+    total += signal[i]
+    folded[Math.floor((i / period) % 1 * PHASE_BINS) % PHASE_BINS] += signal[i]
+  }
+  if (total <= 0) return 0
+
+  const levels: [number, number][] = division === 2 ? [[1, 1], [2, 0.6], [4, 0.35]] : [[1, 1], [division, 0.6]]
+  const exact = Array.from({ length: PHASE_BINS }, (_, bin) => {
+    let weight = 0
+    for (const [steps, w] of levels) {
+      const x = bin / PHASE_BINS * steps
+      if (Math.abs(x - Math.round(x)) * PHASE_BINS / steps < 0.5 + 1e-9) weight = Math.max(weight, w)
+    }
+    return weight
+  })
+  const spread = Math.round(GRID_TOLERANCE * frameRate / period * PHASE_BINS)
+  const weights = exact.map((_, bin) => {
+    let weight = 0
+    for (let d = -spread; d <= spread; d++) weight = Math.max(weight, exact[(bin + d + PHASE_BINS) % PHASE_BINS])
+    return weight
+  })
+
+  let best = 0
+  for (let phase = 0; phase < PHASE_BINS; phase++) {
+    let sum = 0
+    for (let bin = 0; bin < PHASE_BINS; bin++) sum += folded[bin] * weights[(bin - phase + PHASE_BINS) % PHASE_BINS]
+    best = Math.max(best, sum)
+  }
+  return best / total
+}
+
+function classify(bpm: number, best: number): TempoCandidate['relation'] {
+  const ratio = bpm / best
+  const near = (target: number) => Math.abs(ratio - target) / target < 0.04
+  if (near(1)) return 'primary'
+  if (near(0.5)) return 'half'
+  if (near(2)) return 'double'
+  if (near(2 / 3) || near(1.5)) return 'triplet'
+  return 'other'
+}
+
+// Tempo from the autocorrelation of the onset strength envelope. Each lag is scored
+// by its own periodicity plus its first metrical multiples (a comb over the ACF). The
+// strongest periods and their simple ratios are then ranked by how well their beat
+// grid explains the onsets, weighted by a log-normal prior around a typical tempo.
+export function estimateTempo(
+  envelope: OnsetEnvelope,
+  options: Partial<TempoEstimationOptions> = {}
+): TempoEstimate | null {
+  const { minBPM, maxBPM, preferredBPM, priorOctaves, maxCandidates, beatDivision } = { ...DEFAULT_TEMPO_OPTIONS, ...options }
+  const { frameRate } = envelope
+
+  const signal = highPassEnvelope(envelope)
+  const minLag = Math.max(1, Math.floor(60 * frameRate / maxBPM))
+  const maxLag = Math.ceil(60 * frameRate / minBPM)
+  // Need a few periods of the slowest tempo for a meaningful estimate
+  if (signal.length < maxLag * 2) return null
+
+  const acf = autocorrelate(signal, Math.min(signal.length - 1, maxLag * 4))
+  const energy = signal.reduce((sum, v) => sum + v * v, 0) / signal.length
+  if (energy <= 0) return null
+
+  const acfAt = (lag: number) => {
+    const i = Math.floor(lag)
+    if (i + 1 >= acf.length) return 0
+    const frac = lag - i
+    return acf[i] * (1 - frac) + acf[i + 1] * frac
+  }
+  const combAt = (lag: number) =>
+    Math.max(0, acfAt(lag) + 0.5 * acfAt(lag * 2) + 0.33 * acfAt(lag * 3) + 0.25 * acfAt(lag * 4))
+  const priorAt = (bpm: number) => {
+    const octaves = Math.log2(bpm / preferredBPM) / priorOctaves
+    return Math.exp(-0.5 * octaves * octaves)
+  }
+
+  const scores = new Float64Array(maxLag + 1)
+  for (let lag = minLag; lag <= maxLag; lag++) scores[lag] = combAt(lag)
+
+  // Local maxima, refined to sub-frame lag with parabolic interpolation
+  const peaks: { lag: number; score: number }[] = []
+  for (let lag = minLag + 1; lag < maxLag; lag++) {
+    const s = scores[lag]
+    if (s > 0 && s >= scores[lag - 1] && s > scores[lag + 1]) {
+      const a = scores[lag - 1]
+      const c = scores[lag + 1]
+      const denom = a - 2 * s + c
+      const shift = denom !== 0 ? Math.max(-0.5, Math.min(0.5, 0.5 * (a - c) / denom)) : 0
+      peaks.push({ lag: lag + shift, score: s })
+    }
+  }
+  if (peaks.length === 0) return null
+  peaks.sort((a, b) => b.score - a.score)
+
+  // The strongest period is often a subdivision or a grouping of the beat (8ths, a
+  // triplet pulse, two-beat figures), so rank it against its related tempos by fit
+  const ranked: { bpm: number; score: number }[] = []
+  for (const peak of peaks.slice(0, maxCandidates)) {
+    for (const ratio of RELATED_RATIOS) {
+      const bpm = 60 * frameRate / peak.lag * ratio
+      if (bpm < minBPM || bpm > maxBPM) continue
+      if (ranked.some(c => Math.abs(c.bpm - bpm) / bpm < 0.01)) continue
+      const fit = metricalFit(signal, 60 * frameRate / bpm, frameRate, beatDivision)
+      ranked.push({ bpm, score: fit * priorAt(bpm) })
+    }
+  }
+  if (ranked.length === 0) return null
+  ranked.sort((a, b) => b.score - a.score)
+
+  const best = ranked[0]
+  const bestBPM = best.bpm
+  const bestLag = 60 * frameRate / bestBPM
+  if (best.score <= 0) return null
+
+  // Confidence: how much the winning period stands out from the rest of the lag range,
+  // scaled by how periodic the envelope is at that lag
+  const sortedScores = Array.from(scores.subarray(minLag, maxLag + 1)).sort((a, b) => a - b)
+  const median = sortedScores[Math.floor(sortedScores.length / 2)]
+  const bestComb = combAt(bestLag)
+  const prominence = bestComb > 0 ? Math.max(0, (bestComb - median) / bestComb) : 0
+  const periodicity = Math.min(1, Math.max(0, acfAt(bestLag) / energy))
+  const confidence = Math.max(0, Math.min(1, prominence * Math.sqrt(periodicity)))
+
+  const candidates: TempoCandidate[] = []
+  for (const candidate of ranked) {
+    if (candidates.some(c => Math.abs(c.bpm - candidate.bpm) / candidate.bpm < 0.02)) continue
+    candidates.push({
+      bpm: Math.round(candidate.bpm * 10) / 10,
+      score: candidate.score / best.score,
+      relation: classify(candidate.bpm, bestBPM),
+    })
+    if (candidates.length >= maxCandidates) break
+  }
+
+  // Always offer half and double time, and the beat a triplet pulse implies, when they
+  // are in range, even if not among the best
+  for (const [factor, relation] of [[0.5, 'half'], [2, 'double'], [2 / 3, 'triplet']] as const) {
+    const bpm = bestBPM * factor
+    if (bpm < minBPM || bpm > maxBPM) continue
+    if (candidates.some(c => Math.abs(c.bpm - bpm) / bpm < 0.02)) continue
+    const fit = metricalFit(signal, 60 * frameRate / bpm, frameRate, beatDivision)
+    candidates.push({
+      bpm: Math.round(bpm * 10) / 10,
+      score: fit * priorAt(bpm) / best.score,
+      relation,
+    })
+  }
+
+  return {
+    bpm: Math.round(bestBPM * 10) / 10,
+    confidence,
+    candidates,
+  }
+}
@@ -0,0 +1,120 @@
+import type { TimeSignature } from "../time-signature"
+
+export interface OnsetData {
+  time: number
+  index: number
+  strength: number // 0-1, relative to the strongest onset in the clip
+}
+
+export interface OnsetEnvelope {
+  values: Float64Array // onset strength per analysis frame
+  frameRate: number // frames per second
+  startTime: number // seconds at values[0]
+}
+
+export interface OnsetDetectionOptions {
+  fftSize: number
+  hopSize: number
+  thresholdWindow: number // seconds of flux history used by the adaptive threshold
+  thresholdDeviations: number // std deviations above the local mean
+  highFactor: number // hysteresis: arm -> fire
+  lowFactor: number // hysteresis: fire -> re-arm
+  minSeparation: number // seconds between picked peaks
+  onProgress?: (fraction: number) => void // called as spectral frames are processed
+}
+
+export interface OnsetRefinementOptions {
+  energyWindow: number // seconds either side of an onset used for local energy
+  madDeviations: number // MADs above the median energy an onset must reach
+  fallbackCount: number // strongest onsets kept when none pass the threshold
+  minSeparation: number // seconds, lower bound for merging close events
+  maxSeparation: number // seconds, upper bound for merging close events
+  ioiFactor: number // fraction of the median inter-onset interval used as separation
+  bpm?: number // tempo hint used when too few onsets to measure spacing
+}
+
+export interface OnsetAnalysisOptions {
+  detection?: Partial<OnsetDetectionOptions>
+  refinement?: Partial<OnsetRefinementOptions>
+}
+
+export interface TempoEstimationOptions {
+  minBPM: number
+  maxBPM: number
+  preferredBPM: number // centre of the tempo prior
+  priorOctaves: number // width (std dev, in octaves) of the tempo prior
+  maxCandidates: number
+  beatDivision: number // expected subdivision of the beat: 2 straight, 3 triplet/shuffle feel, 5 quintuplets
+}
+
+export interface TempoCandidate {
+  bpm: number
+  score: number // relative to the best candidate (1 = best)
+  relation: 'primary' | 'half' | 'double' | 'triplet' | 'other' // vs. the best candidate; triplet = 2:3 or 3:2
+}
+
+export interface TempoEstimate {
+  bpm: number
+  confidence: number // 0-1
+  candidates: TempoCandidate[] // ranked, best first
+}
+
+export interface AudioAnalysisOptions extends OnsetAnalysisOptions {
+  tempo?: Partial<TempoEstimationOptions>
+  beats?: Partial<BeatTrackingOptions>
+  bpm?: number // known tempo (e.g. metronome); used as the refinement hint
+}
+
+export interface AudioAnalysis {
+  onsets: OnsetData[]
+  tempo: TempoEstimate | null
+  beatTrack: BeatTrack | null // tracked at the known tempo if given, else the estimate
+}
+
+export type BPMSource = 'metronome' | 'estimated' | 'manual' | 'default'
+
+// A take as the analyzer shows it: the onsets against the beat grid they were read on
+export interface AnalysisResult {
+  onsets: OnsetData[]
+  estimatedBPM: number | null
+  bpmSource: BPMSource
+  tempo: TempoEstimate | null // audio-based estimate, kept even when the metronome tempo wins
+  beats: number[] // beat times the grid is anchored to
+  downbeatPhase: number // index into `beats` of the first downbeat
+  tempoMap: TempoPoint[] // local BPM between consecutive beats
+  timeSignature: TimeSignature
+  duration: number
+  countInOnsets?: number // notes played during the count-in, left out of `onsets`
+}
+
+export type AnalysisWorkerRequest = {
+  type: 'analyze'
+  id: number
+  channelData: Float32Array
+  sampleRate: number
+  options: Omit<AudioAnalysisOptions, 'detection'> & {
+    detection?: Omit<Partial<OnsetDetectionOptions>, 'onProgress'>
+  }
+}
+
+export type AnalysisWorkerResponse =
+  | { type: 'progress'; id: number; progress: number }
+  | { type: 'result'; id: number; analysis: AudioAnalysis }
+  | { type: 'error'; id: number; message: string }
+
+export interface BeatTrackingOptions {
+  tightness: number // how strongly inter-beat intervals are held to the tempo period
+  beatsPerBar: number
+  maxDrift: number // largest local tempo deviation followed, as a fraction (0 = fixed tempo)
+  driftWindow: number // seconds of envelope per local tempo estimate
+}
+
+export interface BeatTrack {
+  beats: number[] // beat times in seconds, ascending
+  downbeatPhase: number // index into `beats` of the first downbeat (0..beatsPerBar - 1)
+}
+
+export interface TempoPoint {
+  time: number // seconds, midpoint of the beat interval
+  bpm: number
+}
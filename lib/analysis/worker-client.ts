@@ -0,0 +1,92 @@
+import type { AnalysisWorkerRequest, AnalysisWorkerResponse, AudioAnalysis } from "./types"
+
+export interface AnalyzeInWorkerOptions {
+  signal?: AbortSignal
+  onProgress?: (fraction: number) => void
+}
+
+export interface AnalysisWorkerClient {
+  analyze: (
+    channelData: Float32Array,
+    sampleRate: number,
+    options?: AnalysisWorkerRequest['options'],
+    callbacks?: AnalyzeInWorkerOptions
+  ) => Promise<AudioAnalysis>
+  terminate: () => void
+}
+
+const abortError = () => new DOMException('Analysis cancelled', 'AbortError')
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError'
+}
+
+// Owns a single analysis worker. Aborting a request terminates the worker so the
+// running job stops immediately; the next request starts a fresh one.
+export function createAnalysisWorker(): AnalysisWorkerClient {
+  let worker: Worker | null = null
+  let nextId = 0
+
+  const getWorker = () => {
+    if (!worker) {
+      worker = new Worker(new URL("./analysis.worker.ts", import.meta.url))
+    }
+    return worker
+  }
+
+  const terminate = () => {
+    worker?.terminate()
+    worker = null
+  }
+
+  const analyze: AnalysisWorkerClient['analyze'] = (channelData, sampleRate, options = {}, callbacks = {}) => {
+    const { signal, onProgress } = callbacks
+    if (signal?.aborted) return Promise.reject(abortError())
+
+    const id = ++nextId
+    const target = getWorker()
+
+    return new Promise<AudioAnalysis>((resolve, reject) => {
+      const cleanup = () => {
+        target.removeEventListener('message', handleMessage)
+        target.removeEventListener('error', handleError)
+        signal?.removeEventListener('abort', handleAbort)
+      }
+
+      const handleMessage = (event: MessageEvent<AnalysisWorkerResponse>) => {
+        const response = event.data
+        if (response.id !== id) return
+        if (response.type === 'progress') {
+          onProgress?.(response.progress)
+        } else if (response.type === 'result') {
+          cleanup()
+          resolve(response.analysis)
+        } else {
+          cleanup()
+          reject(new Error(response.message))
+        }
+      }
+
+      const handleError = (event: ErrorEvent) => {
+        cleanup()
+        terminate()
+        reject(new Error(event.message || 'Analysis worker crashed'))
+      }
+
+      const handleAbort = () => {
+        cleanup()
+        if (worker === target) terminate()
+        reject(abortError())
+      }
+
+      target.addEventListener('message', handleMessage)
+      target.addEventListener('error', handleError)
+      signal?.addEventListener('abort', handleAbort)
+
+      const request: AnalysisWorkerRequest = { type: 'analyze', id, channelData, sampleRate, options }
+      target.postMessage(request, [channelData.buffer])
+    })
+  }
+
+  return { analyze, terminate }
+}
@@ -0,0 +1,103 @@
+import type { NoteArticulation } from "./pattern-storage"
+
+// Per-note articulations for strummed patterns: stroke direction, accent, ghost/dead
+// notes, palm mutes and let-ring. Each pair below excludes the other - a note is struck
+// down or up, accented or ghosted, palm-muted or left ringing.
+
+export type ArticulationKind = 'down' | 'up' | 'accent' | 'ghost' | 'palmMute' | 'letRing'
+
+export interface ArticulationOption {
+  kind: ArticulationKind
+  label: string
+  glyph: string // drawn on the note; the strum marks follow standard notation
+}
+
+export const ARTICULATIONS: ArticulationOption[] = [
+  { kind: 'down', label: 'Down strum', glyph: '⊓' },
+  { kind: 'up', label: 'Up strum', glyph: 'V' },
+  { kind: 'accent', label: 'Accent', glyph: '>' },
+  { kind: 'ghost', label: 'Ghost / dead note', glyph: '×' },
+  { kind: 'palmMute', label: 'Palm mute', glyph: 'P.M.' },
+  { kind: 'letRing', label: 'Let ring', glyph: 'l.r.' },
+]
+
+const EXCLUDES: Record<ArticulationKind, ArticulationKind> = {
+  down: 'up',
+  up: 'down',
+  accent: 'ghost',
+  ghost: 'accent',
+  palmMute: 'letRing',
+  letRing: 'palmMute',
+}
+
+export function hasArticulation(articulation: NoteArticulation | null | undefined, kind: ArticulationKind): boolean {
+  if (!articulation) return false
+  return kind === 'down' || kind === 'up' ? articulation.stroke === kind : !!articulation[kind]
+}
+
+// Switch one mark on or off, dropping the one it excludes; null once nothing is left
+export function toggleArticulation(articulation: NoteArticulation | null | undefined, kind: ArticulationKind): NoteArticulation | null {
+  const on = !hasArticulation(articulation, kind)
+  const next: NoteArticulation = { ...articulation }
+  const set = (mark: ArticulationKind, value: boolean) => {
+    if (mark === 'down' || mark === 'up') {
+      if (value) next.stroke = mark
+      else if (next.stroke === mark) delete next.stroke
+    } else if (value) {
+      next[mark] = true
+    } else {
+      delete next[mark]
+    }
+  }
+  set(kind, on)
+  if (on) set(EXCLUDES[kind], false)
+  return Object.keys(next).length > 0 ? next : null
+}
+
+export function articulationGlyphs(articulation: NoteArticulation | null | undefined): string[] {
+  return ARTICULATIONS.filter(option => hasArticulation(articulation, option.kind)).map(option => option.glyph)
+}
+
+// How an articulated note is voiced on playback
+export interface NoteVoicing {
+  gain: number // of the strike
+  rate: number // playback rate of the strike sample; up strums are brighter and thinner
+  tone: number // frequency of the held tone, Hz
+  toneGain: number
+  lowpass: number | null // Hz; muted notes lose their top end
+  maxSeconds: number | null // muted notes are choked however long they're written
+  minSeconds: number // let-ring notes keep sounding past their written length
+}
+
+export function noteVoicing(articulation: NoteArticulation | null | undefined): NoteVoicing {
+  const voicing: NoteVoicing = { gain: 0.5, rate: 1, tone: 220, toneGain: 0.08, lowpass: null, maxSeconds: null, minSeconds: 0 }
+  if (!articulation) return voicing
+
+  if (articulation.stroke === 'down') {
+    voicing.rate = 0.92
+    voicing.tone = 196
+  } else if (articulation.stroke === 'up') {
+    voicing.gain *= 0.8
+    voicing.rate = 1.15
+    voicing.tone = 330
+  }
+  if (articulation.accent) {
+    voicing.gain *= 1.6
+    voicing.toneGain *= 1.5
+  }
+  if (articulation.ghost) {
+    voicing.gain *= 0.3
+    voicing.toneGain = 0
+    voicing.lowpass = 1200
+    voicing.maxSeconds = 0.05
+  }
+  if (articulation.palmMute) {
+    voicing.toneGain *= 0.4
+    voicing.lowpass = Math.min(voicing.lowpass ?? Infinity, 900)
+    voicing.maxSeconds = Math.min(voicing.maxSeconds ?? Infinity, 0.15)
+  }
+  if (articulation.letRing) {
+    voicing.minSeconds = 1.5
+  }
+  return voicing
+}
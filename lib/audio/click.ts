@@ -0,0 +1,39 @@
+import type { CountAccent } from "../time-signature"
+
+// Short square-wave metronome click at `time` on the context clock, pitched by accent
+export function playClick(context: AudioContext, accent: CountAccent, time: number) {
+  const oscillator = context.createOscillator()
+  const gainNode = context.createGain()
+
+  oscillator.frequency.setValueAtTime(accent === 'downbeat' ? 800 : accent === 'accent' ? 700 : 600, time)
+  oscillator.type = 'square'
+
+  gainNode.gain.setValueAtTime(0, time)
+  gainNode.gain.linearRampToValueAtTime(0.1, time + 0.001)
+  gainNode.gain.exponentialRampToValueAtTime(0.001, time + 0.1)
+
+  oscillator.connect(gainNode)
+  gainNode.connect(context.destination)
+
+  oscillator.start(time)
+  oscillator.stop(time + 0.1)
+}
+
+// Count-in click: a brighter, shorter wooden tick so it can't be mistaken for the metronome
+export function playCountInClick(context: AudioContext, accent: CountAccent, time: number) {
+  const oscillator = context.createOscillator()
+  const gainNode = context.createGain()
+
+  oscillator.frequency.setValueAtTime(accent === 'downbeat' ? 1760 : 1320, time)
+  oscillator.type = 'triangle'
+
+  gainNode.gain.setValueAtTime(0, time)
+  gainNode.gain.linearRampToValueAtTime(0.25, time + 0.001)
+  gainNode.gain.exponentialRampToValueAtTime(0.001, time + 0.05)
+
+  oscillator.connect(gainNode)
+  gainNode.connect(context.destination)
+
+  oscillator.start(time)
+  oscillator.stop(time + 0.05)
+}
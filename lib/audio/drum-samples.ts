@@ -0,0 +1,34 @@
+import type { TrackSound } from "../pattern-storage"
+
+// Drum samples rendered once per context, so drum tracks play buffers just like the clap
+// sample does. Each is a short synthesized one-shot.
+
+type DrumSound = Exclude<TrackSound, 'clap'>
+
+function renderSample(context: AudioContext, seconds: number, sample: (t: number, previousNoise: number, noise: number) => number): AudioBuffer {
+  const buffer = context.createBuffer(1, Math.ceil(seconds * context.sampleRate), context.sampleRate)
+  const data = buffer.getChannelData(0)
+  let previousNoise = 0
+  for (let i = 0; i < data.length; i++) {
+    const noise = Math.random() * 2 - 1
+    data[i] = sample(i / context.sampleRate, previousNoise, noise)
+    previousNoise = noise
+  }
+  return buffer
+}
+
+export function createDrumSamples(context: AudioContext): Record<DrumSound, AudioBuffer> {
+  return {
+    // Sine dropping from 150 Hz to 45 Hz
+    kick: renderSample(context, 0.4, t => {
+      const phase = 2 * Math.PI * (45 * t + (105 / 30) * (1 - Math.exp(-30 * t)))
+      return Math.sin(phase) * Math.exp(-7 * t)
+    }),
+    // Noise burst over a short 180 Hz body
+    snare: renderSample(context, 0.25, (t, _, noise) =>
+      0.6 * noise * Math.exp(-18 * t) + 0.5 * Math.sin(2 * Math.PI * 180 * t) * Math.exp(-25 * t)
+    ),
+    // Differenced noise keeps only the top end
+    hat: renderSample(context, 0.08, (t, previousNoise, noise) => 0.5 * (noise - previousNoise) * Math.exp(-60 * t)),
+  }
+}
@@ -0,0 +1,73 @@
+// Round-trip latency (click out -> speaker -> mic -> recording) per input device.
+// Measured by recording a click track and comparing where the clicks, or the player's
+// taps along with them, land in the recording against where the grid expects them.
+
+export type CalibrationMethod = 'tap' | 'loopback'
+
+export interface LatencyCalibration {
+  offset: number // seconds to subtract from onset times
+  spread: number // median absolute deviation of the per-click offsets, seconds
+  method: CalibrationMethod
+  measuredAt: string
+}
+
+export interface LatencyMeasurement {
+  offset: number
+  spread: number
+  matched: number
+  total: number
+}
+
+const LATENCY_STORAGE_KEY = "rhythm-latency-calibration"
+
+function readCalibrations(): Record<string, LatencyCalibration> {
+  try {
+    return JSON.parse(localStorage.getItem(LATENCY_STORAGE_KEY) || "{}")
+  } catch {
+    return {}
+  }
+}
+
+// The browser's default input has an empty device id
+const storageId = (deviceId: string) => deviceId || "default"
+
+export function getLatencyCalibration(deviceId: string): LatencyCalibration | null {
+  return readCalibrations()[storageId(deviceId)] ?? null
+}
+
+export function saveLatencyCalibration(deviceId: string, calibration: LatencyCalibration) {
+  const calibrations = readCalibrations()
+  calibrations[storageId(deviceId)] = calibration
+  localStorage.setItem(LATENCY_STORAGE_KEY, JSON.stringify(calibrations))
+}
+
+export function clearLatencyCalibration(deviceId: string) {
+  const calibrations = readCalibrations()
+  delete calibrations[storageId(deviceId)]
+  localStorage.setItem(LATENCY_STORAGE_KEY, JSON.stringify(calibrations))
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.floor(sorted.length / 2)] ?? 0
+}
+
+// Pair each expected click with the first onset from slightly before it to `maxLatency`
+// after it, and take the median offset. Needs at least half of the clicks to pair up.
+export function measureLatency(onsetTimes: number[], clickTimes: number[], maxLatency = 0.5): LatencyMeasurement | null {
+  const sorted = [...onsetTimes].sort((a, b) => a - b)
+  const offsets: number[] = []
+  for (const click of clickTimes) {
+    const onset = sorted.find(time => time >= click - 0.05 && time <= click + maxLatency)
+    if (onset !== undefined) offsets.push(onset - click)
+  }
+  if (offsets.length < Math.max(3, Math.ceil(clickTimes.length / 2))) return null
+
+  const offset = median(offsets)
+  return {
+    offset,
+    spread: median(offsets.map(value => Math.abs(value - offset))),
+    matched: offsets.length,
+    total: clickTimes.length,
+  }
+}
@@ -0,0 +1,74 @@
+// Input levels: live peak/RMS readings for the meter, and a check of a finished take for
+// clipping and a noise floor too close to the playing for reliable onset detection
+
+export const CLIP_LEVEL = 0.99 // |sample| at or above this counts as full scale
+export const MIN_PEAK_DB = -30 // quieter takes leave too little above the noise
+export const MIN_SNR_DB = 20
+
+export interface LevelReading {
+  peak: number // linear, 0-1
+  rms: number
+}
+
+export interface TakeLevels {
+  peakDb: number
+  clippedRuns: number // runs of 3+ consecutive full-scale samples
+  snrDb: number // loud frames vs the noise floor
+  warnings: string[]
+}
+
+export const toDb = (value: number) => 20 * Math.log10(Math.max(value, 1e-6))
+
+// Current reading from an analyser; `scratch` must be analyser.fftSize long
+export function readLevels(analyser: AnalyserNode, scratch: Float32Array): LevelReading {
+  analyser.getFloatTimeDomainData(scratch)
+  let peak = 0
+  let sum = 0
+  for (let i = 0; i < scratch.length; i++) {
+    const value = Math.abs(scratch[i])
+    if (value > peak) peak = value
+    sum += value * value
+  }
+  return { peak, rms: Math.sqrt(sum / scratch.length) }
+}
+
+export function assessTake(buffer: AudioBuffer, frameSize = 1024): TakeLevels {
+  const data = buffer.getChannelData(0)
+
+  let peak = 0
+  let clippedRuns = 0
+  let run = 0
+  for (let i = 0; i < data.length; i++) {
+    const value = Math.abs(data[i])
+    if (value > peak) peak = value
+    if (value >= CLIP_LEVEL) {
+      if (++run === 3) clippedRuns++
+    } else {
+      run = 0
+    }
+  }
+
+  // Quiet frames between notes give the noise floor, the loudest ones the playing
+  const frames: number[] = []
+  for (let start = 0; start + frameSize <= data.length; start += frameSize) {
+    let sum = 0
+    for (let i = start; i < start + frameSize; i++) sum += data[i] * data[i]
+    frames.push(Math.sqrt(sum / frameSize))
+  }
+  frames.sort((a, b) => a - b)
+  const percentile = (p: number) => frames[Math.min(frames.length - 1, Math.floor(p * frames.length))] ?? 0
+  const snrDb = frames.length > 0 ? toDb(percentile(0.95)) - toDb(percentile(0.1)) : 0
+  const peakDb = toDb(peak)
+
+  const warnings: string[] = []
+  if (clippedRuns > 0) {
+    warnings.push(`The take clipped ${clippedRuns} time${clippedRuns > 1 ? 's' : ''} - turn the input gain down.`)
+  }
+  if (peakDb < MIN_PEAK_DB) {
+    warnings.push(`The take is very quiet (peak ${peakDb.toFixed(0)} dBFS) - turn the input gain up.`)
+  } else if (snrDb < MIN_SNR_DB) {
+    warnings.push(`Only ${snrDb.toFixed(0)} dB between the playing and the background noise - notes may be missed or invented.`)
+  }
+
+  return { peakDb, clippedRuns, snrDb, warnings }
+}
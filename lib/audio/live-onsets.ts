@@ -0,0 +1,50 @@
+// Onsets detected while recording, from the onset-detector worklet. Much simpler than the
+// offline analysis, but quick enough to show players how they sit against the click.
+
+import { loadWorklet, ONSET_DETECTOR_WORKLET_URL } from "./worklets"
+
+export interface LiveOnset {
+  time: number // AudioContext time
+  strength: number
+}
+
+export interface LiveOnsetDetector {
+  stop: () => void
+}
+
+// Resolves null when worklets are unavailable; live onsets are a nice-to-have
+export async function createLiveOnsetDetector(
+  context: AudioContext,
+  stream: MediaStream,
+  onOnset: (onset: LiveOnset) => void
+): Promise<LiveOnsetDetector | null> {
+  if (!(await loadWorklet(context, ONSET_DETECTOR_WORKLET_URL))) return null
+
+  const source = context.createMediaStreamSource(stream)
+  const node = new AudioWorkletNode(context, 'onset-detector')
+  node.port.onmessage = (event) => {
+    if (event.data.type === 'onset') onOnset({ time: event.data.time, strength: event.data.strength })
+  }
+  source.connect(node)
+  node.connect(context.destination)
+
+  return {
+    stop: () => {
+      node.port.postMessage({ type: 'stop' })
+      source.disconnect()
+      node.disconnect()
+      node.port.close()
+    },
+  }
+}
+
+// Signed distance (s) from `time` to the nearest subdivision of the click grid; clicks
+// before the first or after the last one are extrapolated from the nearest interval
+export function gridOffset(time: number, clickTimes: number[], subdivisions: number): number | null {
+  if (clickTimes.length < 2) return null
+  let i = 0
+  while (i < clickTimes.length - 2 && clickTimes[i + 1] <= time) i++
+  const step = (clickTimes[i + 1] - clickTimes[i]) / subdivisions
+  const nearest = clickTimes[i] + Math.round((time - clickTimes[i]) / step) * step
+  return time - nearest
+}
@@ -0,0 +1,61 @@
+// Browser-side processing of the mic signal, chosen per input device. It is all off by
+// default: echo cancellation and AGC reshape attacks (and can cancel the metronome bleed),
+// which throws off onset timing.
+
+export interface MicProcessing {
+  echoCancellation: boolean
+  noiseSuppression: boolean
+  autoGainControl: boolean
+  channelCount: 1 | 2
+}
+
+export const DEFAULT_MIC_PROCESSING: MicProcessing = {
+  echoCancellation: false,
+  noiseSuppression: false,
+  autoGainControl: false,
+  channelCount: 1,
+}
+
+const MIC_PROCESSING_STORAGE_KEY = "rhythm-mic-processing"
+
+function readSettings(): Record<string, MicProcessing> {
+  try {
+    return JSON.parse(localStorage.getItem(MIC_PROCESSING_STORAGE_KEY) || "{}")
+  } catch {
+    return {}
+  }
+}
+
+// The browser's default input has an empty device id
+const storageId = (deviceId: string) => deviceId || "default"
+
+export function getMicProcessing(deviceId: string): MicProcessing {
+  return { ...DEFAULT_MIC_PROCESSING, ...readSettings()[storageId(deviceId)] }
+}
+
+export function saveMicProcessing(deviceId: string, processing: MicProcessing) {
+  const settings = readSettings()
+  settings[storageId(deviceId)] = processing
+  localStorage.setItem(MIC_PROCESSING_STORAGE_KEY, JSON.stringify(settings))
+}
+
+// What the browser actually applied; it may ignore what was asked for
+export function appliedMicProcessing(stream: MediaStream, requested: MicProcessing): MicProcessing {
+  const settings = stream.getAudioTracks()[0]?.getSettings() ?? {}
+  return {
+    echoCancellation: settings.echoCancellation ?? requested.echoCancellation,
+    noiseSuppression: settings.noiseSuppression ?? requested.noiseSuppression,
+    autoGainControl: settings.autoGainControl ?? requested.autoGainControl,
+    channelCount: settings.channelCount === 2 ? 2 : settings.channelCount === 1 ? 1 : requested.channelCount,
+  }
+}
+
+export function formatMicProcessing(processing: MicProcessing): string {
+  const active = [
+    processing.echoCancellation && 'echo cancellation',
+    processing.noiseSuppression && 'noise suppression',
+    processing.autoGainControl && 'auto gain',
+  ].filter(Boolean)
+  const channels = processing.channelCount === 2 ? 'stereo' : 'mono'
+  return `${active.length > 0 ? active.join(' + ') : 'raw input'}, ${channels}`
+}
@@ -0,0 +1,66 @@
+import { DEFAULT_MIC_PROCESSING, type MicProcessing } from "./mic-processing"
+import type { TakeRecorder } from "./take-recorder"
+
+// What the recorder knows about a take, handed to the analyzer with the audio
+export interface RecordingMetadata {
+  deviceId: string
+  metronomeBPM?: number // set when the take was recorded against the metronome
+  countInClicks: number // count-in clicks before bar 1, in the meter the take was recorded in
+  downbeatTime: number // seconds from the start of the recording to bar 1, after the count-in
+  latencyOffset: number // seconds of round-trip latency measured for this device (0 if uncalibrated)
+  clickTimes?: number[] // when each metronome click was scheduled, in seconds from the start of the recording
+  processing: MicProcessing // mic processing the browser applied to the take
+  recorder: TakeRecorder['kind'] // 'encoded' when the browser had no AudioWorklet and MediaRecorder took the take
+}
+
+export const MAX_COUNT_IN_BARS = 4
+
+// Convert clicks scheduled on the AudioContext clock to recording time, dropping any
+// that were scheduled ahead but never played because the recording had already stopped
+export function clickTimeline(clickContextTimes: number[], startTime: number, stopTime: number): number[] {
+  return clickContextTimes.filter(time => time <= stopTime).map(time => time - startTime)
+}
+
+// Raw input for timing work unless the device is set up otherwise
+export function recordingConstraints(deviceId: string, processing: MicProcessing = DEFAULT_MIC_PROCESSING): MediaStreamConstraints {
+  return {
+    audio: {
+      deviceId: deviceId ? { exact: deviceId } : undefined,
+      echoCancellation: processing.echoCancellation,
+      noiseSuppression: processing.noiseSuppression,
+      autoGainControl: processing.autoGainControl,
+      channelCount: processing.channelCount,
+      sampleRate: 44100
+    }
+  }
+}
+
+// Notes this far ahead of bar 1 still count as played on it
+export const countInMargin = (bpm: number) => Math.min(0.1, 30 / bpm)
+
+// Cut the count-in off a take so the audio (and every time in the metadata) starts just
+// before bar 1. Count-in clicks stay in `clickTimes`, at negative times.
+export function trimCountIn(
+  context: BaseAudioContext,
+  buffer: AudioBuffer,
+  recording: RecordingMetadata
+): { buffer: AudioBuffer; recording: RecordingMetadata } {
+  if (recording.countInClicks === 0 || recording.downbeatTime <= 0) return { buffer, recording }
+
+  const start = Math.max(0, recording.downbeatTime - countInMargin(recording.metronomeBPM ?? 120))
+  const startSample = Math.min(Math.floor(start * buffer.sampleRate), buffer.length - 1)
+  const trimmed = context.createBuffer(buffer.numberOfChannels, buffer.length - startSample, buffer.sampleRate)
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    trimmed.copyToChannel(buffer.getChannelData(channel).subarray(startSample), channel)
+  }
+
+  const offset = startSample / buffer.sampleRate
+  return {
+    buffer: trimmed,
+    recording: {
+      ...recording,
+      downbeatTime: recording.downbeatTime - offset,
+      clickTimes: recording.clickTimes?.map(time => time - offset),
+    },
+  }
+}
@@ -0,0 +1,79 @@
+// Lookahead step scheduler ("A Tale of Two Clocks"): a coarse JS timer wakes up every
+// few milliseconds and schedules every step that falls within the next window on the
+// AudioContext clock, so audio timing never depends on when the timer actually fires.
+// The playhead callback runs from requestAnimationFrame once a step is audible.
+
+export interface SchedulerOptions {
+  context: AudioContext
+  // Seconds from `step` to the next, read as each step is scheduled so tempo changes
+  // apply immediately
+  getStepDuration: (step: number) => number
+  // Schedule the audio for `step` at `time` (AudioContext seconds)
+  onStep: (step: number, time: number) => void
+  // Called when `step` is actually heard, for playheads and beat indicators
+  onVisualStep?: (step: number, time: number) => void
+  lookahead?: number // ms between timer wake-ups
+  scheduleAhead?: number // seconds of audio scheduled ahead of the clock
+  startDelay?: number // seconds from start() to the first step
+}
+
+export interface Scheduler {
+  start: () => void
+  stop: () => void
+  isRunning: () => boolean
+}
+
+export function createScheduler({
+  context,
+  getStepDuration,
+  onStep,
+  onVisualStep,
+  lookahead = 25,
+  scheduleAhead = 0.1,
+  startDelay = 0.05,
+}: SchedulerOptions): Scheduler {
+  let timerId: ReturnType<typeof setInterval> | null = null
+  let frameId: number | null = null
+  let nextStep = 0
+  let nextTime = 0
+  let queue: { step: number; time: number }[] = []
+
+  const schedule = () => {
+    while (nextTime < context.currentTime + scheduleAhead) {
+      onStep(nextStep, nextTime)
+      queue.push({ step: nextStep, time: nextTime })
+      nextTime += getStepDuration(nextStep)
+      nextStep++
+    }
+  }
+
+  const draw = () => {
+    let latest: { step: number; time: number } | null = null
+    while (queue.length > 0 && queue[0].time <= context.currentTime) {
+      latest = queue.shift()!
+    }
+    if (latest && onVisualStep) onVisualStep(latest.step, latest.time)
+    frameId = requestAnimationFrame(draw)
+  }
+
+  const start = () => {
+    if (timerId !== null) return
+    if (context.state === 'suspended') context.resume()
+    nextStep = 0
+    nextTime = context.currentTime + startDelay
+    queue = []
+    schedule()
+    timerId = setInterval(schedule, lookahead)
+    if (onVisualStep) frameId = requestAnimationFrame(draw)
+  }
+
+  const stop = () => {
+    if (timerId !== null) clearInterval(timerId)
+    if (frameId !== null) cancelAnimationFrame(frameId)
+    timerId = null
+    frameId = null
+    queue = []
+  }
+
+  return { start, stop, isRunning: () => timerId !== null }
+}
@@ -0,0 +1,120 @@
+// Records a take from a mic stream into an AudioBuffer. Raw PCM is captured with an
+// AudioWorklet where available; otherwise MediaRecorder encodes it in the best format
+// the browser supports and the result is decoded back.
+
+import { loadWorklet, PCM_RECORDER_WORKLET_URL } from "./worklets"
+
+// Tried in order when falling back to MediaRecorder
+const ENCODED_MIME_TYPES = [
+  'audio/webm;codecs=opus',
+  'audio/webm',
+  'audio/ogg;codecs=opus',
+  'audio/mp4',
+]
+
+export interface TakeRecorderHandlers {
+  onStart?: (time: number) => void // context time of the first recorded sample
+  onComplete: (buffer: AudioBuffer) => void
+  onError?: (error: unknown) => void
+}
+
+export interface TakeRecorder {
+  kind: 'pcm' | 'encoded'
+  start: () => void
+  stop: () => void
+  isRecording: () => boolean
+}
+
+function createPcmRecorder(context: AudioContext, stream: MediaStream, handlers: TakeRecorderHandlers): TakeRecorder {
+  const source = context.createMediaStreamSource(stream)
+  const node = new AudioWorkletNode(context, 'pcm-recorder')
+  const chunks: Float32Array[][] = []
+  let recording = false
+
+  node.port.onmessage = (event) => {
+    const message = event.data
+    if (message.type === 'started') {
+      handlers.onStart?.(message.time)
+    } else if (message.type === 'data') {
+      chunks.push(message.channels)
+    } else if (message.type === 'stopped') {
+      source.disconnect()
+      node.disconnect()
+      node.port.close()
+
+      const length = chunks.reduce((sum, channels) => sum + channels[0].length, 0)
+      const channelCount = Math.max(1, ...chunks.map(channels => channels.length))
+      if (length === 0) {
+        handlers.onError?.(new Error('No audio was captured'))
+        return
+      }
+      const buffer = context.createBuffer(channelCount, length, context.sampleRate)
+      for (let channel = 0; channel < channelCount; channel++) {
+        const data = buffer.getChannelData(channel)
+        let offset = 0
+        for (const channels of chunks) {
+          if (channels[channel]) data.set(channels[channel], offset)
+          offset += channels[0].length
+        }
+      }
+      handlers.onComplete(buffer)
+    }
+  }
+
+  // The node outputs silence; it only needs to be pulled by the graph
+  source.connect(node)
+  node.connect(context.destination)
+
+  return {
+    kind: 'pcm',
+    start: () => {
+      if (context.state === 'suspended') context.resume()
+      recording = true
+      node.port.postMessage({ type: 'start' })
+    },
+    stop: () => {
+      if (!recording) return
+      recording = false
+      node.port.postMessage({ type: 'stop' })
+    },
+    isRecording: () => recording,
+  }
+}
+
+function createEncodedRecorder(context: AudioContext, stream: MediaStream, handlers: TakeRecorderHandlers): TakeRecorder {
+  const mimeType = ENCODED_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type))
+  // No preference left: let the browser pick its default format
+  const mediaRecorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined)
+  const chunks: Blob[] = []
+
+  mediaRecorder.onstart = () => handlers.onStart?.(context.currentTime)
+  mediaRecorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data)
+  }
+  mediaRecorder.onstop = async () => {
+    try {
+      const blob = new Blob(chunks, { type: mediaRecorder.mimeType })
+      handlers.onComplete(await context.decodeAudioData(await blob.arrayBuffer()))
+    } catch (error) {
+      handlers.onError?.(error)
+    }
+  }
+
+  return {
+    kind: 'encoded',
+    start: () => mediaRecorder.start(100), // Collect data every 100ms
+    stop: () => {
+      if (mediaRecorder.state !== 'inactive') mediaRecorder.stop()
+    },
+    isRecording: () => mediaRecorder.state !== 'inactive',
+  }
+}
+
+export async function createTakeRecorder(
+  context: AudioContext,
+  stream: MediaStream,
+  handlers: TakeRecorderHandlers
+): Promise<TakeRecorder> {
+  if (await loadWorklet(context, PCM_RECORDER_WORKLET_URL)) return createPcmRecorder(context, stream, handlers)
+  return createEncodedRecorder(context, stream, handlers)
+}
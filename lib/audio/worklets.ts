@@ -0,0 +1,22 @@
+// AudioWorklet modules served from public/worklets, loaded once per context
+
+export const PCM_RECORDER_WORKLET_URL = "/worklets/pcm-recorder-processor.js"
+export const ONSET_DETECTOR_WORKLET_URL = "/worklets/onset-detector-processor.js"
+
+const loadedModules = new WeakMap<BaseAudioContext, Set<string>>()
+
+// Resolves false when the browser has no AudioWorklet support or the module fails to load
+export async function loadWorklet(context: BaseAudioContext, url: string): Promise<boolean> {
+  if (typeof AudioWorkletNode === 'undefined' || !context.audioWorklet) return false
+  const loaded = loadedModules.get(context) ?? new Set<string>()
+  if (loaded.has(url)) return true
+  try {
+    await context.audioWorklet.addModule(url)
+    loaded.add(url)
+    loadedModules.set(context, loaded)
+    return true
+  } catch (error) {
+    console.warn(`Could not load audio worklet ${url}:`, error)
+    return false
+  }
+}
@@ -0,0 +1,64 @@
+import type { NoteDuration } from "./pattern-storage"
+
+// Length of each duration in straight cells (16ths), shortest first. Notes and rests in
+// tuplet counts always last one cell.
+export const DURATION_CELLS: Record<NoteDuration, number> = {
+  '16th': 1,
+  '8th': 2,
+  'dotted-8th': 3,
+  'quarter': 4,
+  'dotted-quarter': 6,
+  'half': 8,
+  'dotted-half': 12,
+  'whole': 16,
+}
+
+export const NOTE_DURATIONS = Object.keys(DURATION_CELLS) as NoteDuration[]
+
+export const DURATION_LABELS: Record<NoteDuration, string> = {
+  '16th': '16th',
+  '8th': '8th',
+  'dotted-8th': 'Dotted 8th',
+  'quarter': 'Quarter',
+  'dotted-quarter': 'Dotted quarter',
+  'half': 'Half',
+  'dotted-half': 'Dotted half',
+  'whole': 'Whole',
+}
+
+// Unknown values (hand-edited files) count as 16ths
+export function durationCells(duration: string | undefined): number {
+  return DURATION_CELLS[duration as NoteDuration] ?? 1
+}
+
+// Longest duration that fits in `cells` 16ths
+export function durationForCells(cells: number): NoteDuration {
+  return [...NOTE_DURATIONS].reverse().find(duration => DURATION_CELLS[duration] <= cells) ?? '16th'
+}
+
+export interface SoundingNote {
+  cell: number
+  cells: number // how long it sounds, ties included
+}
+
+// The notes a pattern actually plays. A tie holds a note into the next one when that
+// note starts right where it ends, so the tied-to note isn't struck again.
+export function soundingNotes(
+  pattern: boolean[],
+  spanOf: (cell: number) => number, // cells covered by the note written at `cell`
+  ties: boolean[] = []
+): SoundingNote[] {
+  const notes: SoundingNote[] = []
+  let held: SoundingNote | null = null
+  pattern.forEach((on, cell) => {
+    if (!on) return
+    if (held && held.cell + held.cells === cell) {
+      held.cells += spanOf(cell)
+    } else {
+      held = { cell, cells: spanOf(cell) }
+      notes.push(held)
+    }
+    if (!ties[cell]) held = null
+  })
+  return notes
+}
@@ -0,0 +1,58 @@
+// Note velocities on the MIDI scale (1-127) with the usual dynamic marks. Patterns saved
+// before velocities existed play every note at mezzo-forte.
+
+export const MIN_VELOCITY = 1
+export const MAX_VELOCITY = 127
+
+export interface Dynamic {
+  mark: string
+  velocity: number
+}
+
+export const DYNAMICS: Dynamic[] = [
+  { mark: 'ppp', velocity: 16 },
+  { mark: 'pp', velocity: 33 },
+  { mark: 'p', velocity: 49 },
+  { mark: 'mp', velocity: 64 },
+  { mark: 'mf', velocity: 80 },
+  { mark: 'f', velocity: 96 },
+  { mark: 'ff', velocity: 112 },
+  { mark: 'fff', velocity: 127 },
+]
+
+export const DEFAULT_VELOCITY = 80 // mf
+
+export function clampVelocity(velocity: number): number {
+  return Math.round(Math.min(MAX_VELOCITY, Math.max(MIN_VELOCITY, velocity)))
+}
+
+// Nearest dynamic mark to a velocity
+export function dynamicMark(velocity: number): string {
+  return DYNAMICS.reduce((best, dynamic) =>
+    Math.abs(dynamic.velocity - velocity) < Math.abs(best.velocity - velocity) ? dynamic : best
+  ).mark
+}
+
+// Playback gain relative to mezzo-forte; loudness grows faster than velocity, so fff is
+// about twice as loud as mf and ppp a whisper
+export function velocityGain(velocity: number): number {
+  return Math.pow(velocity / DEFAULT_VELOCITY, 1.5)
+}
+
+// The velocity that plays at `gain` relative to mezzo-forte (the inverse of velocityGain)
+export function velocityForGain(gain: number): number {
+  return clampVelocity(DEFAULT_VELOCITY * Math.pow(gain, 1 / 1.5))
+}
+
+// A straight ramp from `from` to `to` across the notes at `cells` (in order), spaced by
+// where they fall rather than by how many there are
+export function rampVelocities(velocities: number[], cells: number[], from: number, to: number): number[] {
+  const next = [...velocities]
+  if (cells.length === 0) return next
+  const first = cells[0]
+  const span = cells[cells.length - 1] - first
+  cells.forEach(cell => {
+    next[cell] = clampVelocity(span > 0 ? from + (to - from) * (cell - first) / span : to)
+  })
+  return next
+}
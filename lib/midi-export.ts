@@ -0,0 +1,106 @@
+import { noteVoicing } from "./articulations"
+import { soundingNotes, durationCells } from "./durations"
+import { DEFAULT_VELOCITY, velocityForGain, velocityGain } from "./dynamics"
+import { downloadBlob, patternFilename, type SavedPattern } from "./pattern-storage"
+import { patternLayout } from "./subdivision"
+import { normalizeTimeSignature } from "./time-signature"
+import { trackSoundOption } from "./tracks"
+
+// Standard MIDI File (format 0) export of a pattern on the GM drum channel: the main
+// pattern as side sticks, with its ties, velocities and accents, plus a GM drum note per
+// drum track hit, all at the pattern's tempo, meter, swing and tuplets.
+
+const TICKS_PER_QUARTER = 480
+const DRUM_CHANNEL = 9 // channel 10 in GM numbering
+const SIDE_STICK = 37 // GM percussion note, kept clear of the drum track sounds
+const CLOCKS_PER_QUARTER = 24 // MIDI clocks
+
+type ExportablePattern = Pick<SavedPattern, 'name' | 'bpm' | 'pattern' | 'durations' | 'timeSignature' | 'subdivisions' | 'swing' | 'ties' | 'articulations' | 'velocities' | 'tracks'>
+
+interface MidiEvent {
+  tick: number
+  data: number[]
+}
+
+// Variable-length quantity: 7 bits per byte, high bit set on all but the last
+function variableLength(value: number): number[] {
+  const bytes = [value & 0x7f]
+  let rest = value >> 7
+  while (rest > 0) {
+    bytes.unshift((rest & 0x7f) | 0x80)
+    rest >>= 7
+  }
+  return bytes
+}
+
+function uint32(value: number): number[] {
+  return [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff]
+}
+
+function ascii(text: string): number[] {
+  return Array.from(text, char => char.charCodeAt(0) & 0x7f)
+}
+
+export function patternToMidi(pattern: ExportablePattern): Uint8Array {
+  const timeSignature = normalizeTimeSignature(pattern.timeSignature)
+  const { positions, straight, counts } = patternLayout(pattern)
+  // BPM counts the denominator note
+  const ticksPerCount = TICKS_PER_QUARTER * 4 / timeSignature.denominator
+  const microsecondsPerQuarter = Math.round(60_000_000 / pattern.bpm * timeSignature.denominator / 4)
+  // Metronome clicks fall on every count, or every dotted quarter in compound x/8
+  const compound = timeSignature.denominator === 8 && timeSignature.grouping.every(size => size === 3)
+  const clocksPerClick = CLOCKS_PER_QUARTER * 4 / timeSignature.denominator * (compound ? 3 : 1)
+  const tickAt = (cell: number) => Math.round((cell < positions.length ? positions[cell] : counts) * ticksPerCount)
+
+  const name = ascii(pattern.name)
+  const events: MidiEvent[] = [
+    { tick: 0, data: [0xff, 0x03, ...variableLength(name.length), ...name] },
+    { tick: 0, data: [0xff, 0x51, 0x03, (microsecondsPerQuarter >> 16) & 0xff, (microsecondsPerQuarter >> 8) & 0xff, microsecondsPerQuarter & 0xff] },
+    { tick: 0, data: [0xff, 0x58, 0x04, timeSignature.numerator, Math.log2(timeSignature.denominator), clocksPerClick, 8] },
+  ]
+
+  const spanOf = (cell: number) => straight[cell] ? durationCells(pattern.durations[cell]) : 1
+  const plainGain = noteVoicing(null).gain
+  soundingNotes(pattern.pattern, spanOf, pattern.ties).forEach(note => {
+    // Accents, ghosts and up strums change the strike's level on playback, so they
+    // scale the velocity by the same amount
+    const strike = noteVoicing(pattern.articulations?.[note.cell]).gain / plainGain
+    const velocity = velocityForGain(velocityGain(pattern.velocities?.[note.cell] ?? DEFAULT_VELOCITY) * strike)
+    const start = tickAt(note.cell)
+    events.push({ tick: start, data: [0x90 | DRUM_CHANNEL, SIDE_STICK, velocity] })
+    events.push({ tick: Math.max(start + 1, tickAt(note.cell + note.cells)), data: [0x80 | DRUM_CHANNEL, SIDE_STICK, 0] })
+  })
+
+  // Drum hits last one cell
+  pattern.tracks?.forEach(track => {
+    const note = trackSoundOption(track.sound).midiNote
+    track.pattern.forEach((on, cell) => {
+      if (!on || cell >= positions.length) return
+      const velocity = track.velocities?.[cell] ?? DEFAULT_VELOCITY
+      events.push({ tick: tickAt(cell), data: [0x90 | DRUM_CHANNEL, note, velocity] })
+      events.push({ tick: Math.max(tickAt(cell) + 1, tickAt(cell + 1)), data: [0x80 | DRUM_CHANNEL, note, 0] })
+    })
+  })
+
+  // Meta events first, then note-offs before note-ons on the same tick, so back-to-back
+  // notes don't swallow each other
+  const order = (event: MidiEvent) => event.data[0] === 0xff ? 0 : (event.data[0] & 0xf0) === 0x80 ? 1 : 2
+  events.sort((a, b) => a.tick - b.tick || order(a) - order(b))
+
+  const track: number[] = []
+  let lastTick = 0
+  events.forEach(event => {
+    track.push(...variableLength(event.tick - lastTick), ...event.data)
+    lastTick = event.tick
+  })
+  track.push(...variableLength(Math.max(0, Math.round(counts * ticksPerCount) - lastTick)), 0xff, 0x2f, 0x00)
+
+  return new Uint8Array([
+    ...ascii('MThd'), ...uint32(6), 0, 0, 0, 1, (TICKS_PER_QUARTER >> 8) & 0xff, TICKS_PER_QUARTER & 0xff,
+    ...ascii('MTrk'), ...uint32(track.length), ...track,
+  ])
+}
+
+export function downloadMidi(pattern: ExportablePattern): void {
+  downloadBlob(new Blob([patternToMidi(pattern)], { type: 'audio/midi' }), patternFilename(pattern.name, 'mid'))
+}
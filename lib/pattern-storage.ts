@@ -1,21 +1,103 @@
-export interface SavedPattern {
+import type { TimeSignature } from "./time-signature";
+
+// Lengths are in 16th cells (see lib/durations); in a tuplet count every note lasts one cell
+export type NoteDuration =
+  | '16th'
+  | '8th'
+  | 'dotted-8th'
+  | 'quarter'
+  | 'dotted-quarter'
+  | 'half'
+  | 'dotted-half'
+  | 'whole';
+
+// How a note is played (see lib/articulations). Only the set marks are stored.
+export interface NoteArticulation {
+  stroke?: 'down' | 'up';
+  accent?: boolean;
+  ghost?: boolean; // ghost or dead note: muted, barely sounding
+  palmMute?: boolean;
+  letRing?: boolean;
+}
+
+export type TrackSound = 'clap' | 'kick' | 'snare' | 'hat';
+
+// Mixer settings; absent fields mean full volume, not muted, not soloed
+export interface TrackMix {
+  volume?: number; // 0-1
+  muted?: boolean;
+  solo?: boolean;
+}
+
+// A reference drum track played along with the main (strum) pattern, on the same cells.
+// Hits last one cell (see lib/tracks).
+export interface PatternTrack extends TrackMix {
+  id: string;
+  name: string;
+  sound: TrackSound;
+  pattern: boolean[];
+  velocities?: number[];
+}
+
+// The optional parts of a pattern, stored only when they're used
+export interface PatternDetails {
+  subdivisions?: number[]; // cells per count, absent when every count is straight 16ths (see lib/subdivision)
+  swing?: number; // percent of a straight count taken by its first half; 50 or absent = straight
+  rests?: boolean[]; // explicit rests, lasting their cell's duration (the cell's note is off)
+  ties?: boolean[]; // notes held into the note that starts where they end
+  articulations?: (NoteArticulation | null)[]; // per cell, null for plain notes
+  velocities?: number[]; // per cell, 1-127 (see lib/dynamics); absent = all mezzo-forte
+  tracks?: PatternTrack[]; // drum tracks under the main pattern
+  mainMix?: TrackMix; // mixer settings of the main pattern itself
+}
+
+export interface SavedPattern extends PatternDetails {
   id: string;
   name: string;
   bpm: number;
-  pattern: boolean[];  // 32 boolean values for note on/off
-  durations: string[]; // 32 duration values ('16th', '8th', 'quarter')
+  pattern: boolean[];  // one boolean per 16th cell for note on/off (32 for two bars of 4/4)
+  durations: string[]; // one NoteDuration per cell, for the note or rest starting there
+  timeSignature?: TimeSignature; // absent on patterns saved before meters were supported (4/4)
   createdAt: string;
   updatedAt: string;
   tags?: string[];
   description?: string;
 }
 
+// An unsaved pattern handed to the editor from elsewhere in the app (e.g. a quantized take)
+export interface PatternDraft extends PatternDetails {
+  name?: string;
+  bpm: number;
+  pattern: boolean[];
+  durations: NoteDuration[];
+  timeSignature: TimeSignature;
+}
+
 export interface PatternExport {
   version: "1.0";
   patterns: SavedPattern[];
   exportedAt: string;
 }
 
+const PATTERN_DRAFT_KEY = "rhythm-pattern-draft";
+
+// Drafts travel between pages through sessionStorage so they survive the navigation
+// but not the tab
+export function stashPatternDraft(draft: PatternDraft): void {
+  sessionStorage.setItem(PATTERN_DRAFT_KEY, JSON.stringify(draft));
+}
+
+export function takePatternDraft(): PatternDraft | null {
+  const stored = sessionStorage.getItem(PATTERN_DRAFT_KEY);
+  if (!stored) return null;
+  sessionStorage.removeItem(PATTERN_DRAFT_KEY);
+  try {
+    return JSON.parse(stored) as PatternDraft;
+  } catch {
+    return null;
+  }
+}
+
 export function createPatternId(): string {
   return `pattern_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
 }
@@ -24,7 +106,9 @@ export function createSavedPattern(
   name: string,
   bpm: number,
   pattern: boolean[],
-  durations: string[]
+  durations: string[],
+  timeSignature?: TimeSignature,
+  details: PatternDetails = {}
 ): SavedPattern {
   const now = new Date().toISOString();
   return {
@@ -33,6 +117,8 @@ export function createSavedPattern(
     bpm,
     pattern,
     durations,
+    timeSignature,
+    ...details,
     createdAt: now,
     updatedAt: now,
   };
@@ -59,8 +145,16 @@ export function importPatternsFromJSON(jsonString: string): SavedPattern[] {
   }
 }
 
+// A safe download name for a pattern, e.g. "Funk groove #2" -> "Funk_groove_2.mid"
+export function patternFilename(name: string, extension: string): string {
+  return `${name.trim().replace(/[^\w-]+/g, "_") || "pattern"}.${extension}`;
+}
+
 export function downloadJSON(content: string, filename: string): void {
-  const blob = new Blob([content], { type: "application/json" });
+  downloadBlob(new Blob([content], { type: "application/json" }), filename);
+}
+
+export function downloadBlob(blob: Blob, filename: string): void {
   const url = URL.createObjectURL(blob);
   const link = document.createElement("a");
   link.href = url;
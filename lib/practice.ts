@@ -0,0 +1,151 @@
+import { beatTimeAt, type OnsetData } from "./analysis"
+import type { SavedPattern } from "./pattern-storage"
+import { durationCells, soundingNotes } from "./durations"
+import { patternLayout } from "./subdivision"
+import { cellsPerCount, normalizeTimeSignature } from "./time-signature"
+
+export interface PracticeOptions {
+  beats: number[] // beat (count) times of the take, in seconds
+  downbeatPhase: number // index into `beats` of the first downbeat
+  duration: number
+  tolerance?: number // largest early/late offset (s) that still counts as a hit
+}
+
+export interface ExpectedNote {
+  cell: number // cell in the saved pattern
+  repeat: number // pass through the pattern (the take loops it)
+  time: number
+}
+
+export interface ScoredNote extends ExpectedNote {
+  status: 'hit' | 'miss'
+  onsetTime: number | null
+  offsetMs: number | null // negative = early, positive = late
+}
+
+export interface PracticeScore {
+  notes: ScoredNote[]
+  extras: OnsetData[] // played notes that match nothing in the pattern
+  hits: number
+  misses: number
+  meanOffsetMs: number // average signed offset of hits (rushing < 0 < dragging)
+  meanAbsOffsetMs: number
+  tolerance: number
+  score: number // 0-100
+}
+
+// Where each note of the pattern should fall in the take. The pattern loops from the
+// first downbeat for as long as the player kept playing.
+export function expectedNoteTimes(pattern: SavedPattern, options: PracticeOptions, until: number): ExpectedNote[] {
+  const { beats, downbeatPhase, duration } = options
+  const { positions, straight, counts: loopCounts } = patternLayout(pattern)
+  // Tied-to notes aren't played again, so they aren't expected in the take
+  const spanOf = (cell: number) => (straight[cell] ? durationCells(pattern.durations[cell]) : 1)
+  const cells = soundingNotes(pattern.pattern, spanOf, pattern.ties).map(note => note.cell)
+  if (cells.length === 0 || beats.length < 2) return []
+
+  const notes: ExpectedNote[] = []
+  for (let repeat = 0; ; repeat++) {
+    const loopStart = beatTimeAt(beats, downbeatPhase + repeat * loopCounts)
+    if (loopStart > Math.min(until, duration)) break
+    for (const cell of cells) {
+      const time = beatTimeAt(beats, downbeatPhase + repeat * loopCounts + positions[cell])
+      if (time >= 0 && time <= Math.min(until, duration)) notes.push({ cell, repeat, time })
+    }
+  }
+  return notes
+}
+
+// Monotonic alignment of expected notes to detected onsets (an edit distance over
+// time): a match costs its timing error, a miss or an extra note costs the tolerance,
+// so any match inside the tolerance beats skipping both notes.
+function alignNotes(expected: ExpectedNote[], onsets: OnsetData[], tolerance: number): (number | null)[] {
+  const n = expected.length
+  const m = onsets.length
+  const width = m + 1
+  const cost = new Float64Array((n + 1) * width)
+  const move = new Uint8Array((n + 1) * width) // 0 = match, 1 = miss, 2 = extra
+
+  for (let i = 0; i <= n; i++) {
+    for (let j = 0; j <= m; j++) {
+      if (i === 0 && j === 0) continue
+      let best = Infinity
+      let bestMove = 0
+      if (i > 0 && j > 0) {
+        const error = Math.abs(onsets[j - 1].time - expected[i - 1].time)
+        if (error <= tolerance) {
+          best = cost[(i - 1) * width + j - 1] + error
+        }
+      }
+      if (i > 0 && cost[(i - 1) * width + j] + tolerance < best) {
+        best = cost[(i - 1) * width + j] + tolerance
+        bestMove = 1
+      }
+      if (j > 0 && cost[i * width + j - 1] + tolerance < best) {
+        best = cost[i * width + j - 1] + tolerance
+        bestMove = 2
+      }
+      cost[i * width + j] = best
+      move[i * width + j] = bestMove
+    }
+  }
+
+  const matches: (number | null)[] = new Array(n).fill(null)
+  let i = n
+  let j = m
+  while (i > 0 || j > 0) {
+    const step = move[i * width + j]
+    if (step === 0) {
+      matches[i - 1] = j - 1
+      i--
+      j--
+    } else if (step === 1) {
+      i--
+    } else {
+      j--
+    }
+  }
+  return matches
+}
+
+// Score a take against a saved pattern
+export function scorePractice(onsets: OnsetData[], pattern: SavedPattern, options: PracticeOptions): PracticeScore {
+  const perCount = cellsPerCount(normalizeTimeSignature(pattern.timeSignature))
+  // Default tolerance: half a 16th at the pattern tempo, at most 120 ms
+  const tolerance = options.tolerance ?? Math.min(0.12, 0.5 * 60 / (pattern.bpm * perCount))
+  const sorted = [...onsets].sort((a, b) => a.time - b.time)
+  const lastOnset = sorted.length > 0 ? sorted[sorted.length - 1].time : 0
+
+  const expected = expectedNoteTimes(pattern, options, lastOnset + tolerance)
+  const matches = alignNotes(expected, sorted, tolerance)
+
+  const matched = new Set<number>()
+  const notes: ScoredNote[] = expected.map((note, i) => {
+    const j = matches[i]
+    if (j === null) return { ...note, status: 'miss', onsetTime: null, offsetMs: null }
+    matched.add(j)
+    return { ...note, status: 'hit', onsetTime: sorted[j].time, offsetMs: (sorted[j].time - note.time) * 1000 }
+  })
+  const extras = sorted.filter((_, j) => !matched.has(j))
+
+  const offsets = notes.flatMap(note => (note.offsetMs === null ? [] : [note.offsetMs]))
+  const hits = offsets.length
+  const meanOffsetMs = hits > 0 ? offsets.reduce((sum, v) => sum + v, 0) / hits : 0
+  const meanAbsOffsetMs = hits > 0 ? offsets.reduce((sum, v) => sum + Math.abs(v), 0) / hits : 0
+
+  // Each hit earns 0.5-1 depending on timing; misses and extras earn nothing
+  const earned = offsets.reduce((sum, v) => sum + 1 - 0.5 * Math.abs(v) / (tolerance * 1000), 0)
+  const possible = notes.length + extras.length
+  const score = possible > 0 ? Math.round(100 * earned / possible) : 0
+
+  return {
+    notes,
+    extras,
+    hits,
+    misses: notes.length - hits,
+    meanOffsetMs,
+    meanAbsOffsetMs,
+    tolerance,
+    score,
+  }
+}
@@ -0,0 +1,101 @@
+import { beatPositionAt, type OnsetData } from "./analysis"
+import type { NoteDuration, PatternDraft } from "./pattern-storage"
+import { durationForCells } from "./durations"
+import { cellPlaces, compactSubdivisions, countStarts, fillSubdivisions, isStraightCount } from "./subdivision"
+import { cellsPerCount, type TimeSignature } from "./time-signature"
+
+export type QuantizeSubdivision = '16th' | 'triplet'
+
+export interface QuantizeOptions {
+  beats: number[] // beat (count) times in seconds
+  downbeatPhase: number // index into `beats` of the first downbeat
+  timeSignature: TimeSignature
+  bpm: number
+  subdivision: QuantizeSubdivision
+  maxBars: number
+}
+
+export interface QuantizeResult {
+  draft: PatternDraft
+  bars: number
+  dropped: number // onsets past the last bar that fits in the editor
+  merged: number // onsets that snapped onto a cell an earlier onset already holds
+}
+
+// Snap onsets to the beat grid and lay them out as editor cells. Each onset belongs to
+// the count its nearest 16th falls in. With triplet snapping, every count takes whichever
+// of 16ths or triplets keeps the most of its notes apart, then sits closest to them, so
+// straight figures stay straight next to triplet ones. Durations fill the gap to the
+// next note.
+export function quantizeOnsets(onsets: OnsetData[], options: QuantizeOptions): QuantizeResult {
+  const { beats, downbeatPhase, timeSignature, bpm, subdivision, maxBars } = options
+  const perCount = cellsPerCount(timeSignature)
+  const countsPerBar = timeSignature.numerator
+
+  // Musical position in counts from the first downbeat
+  const positions = onsets
+    .map(onset => beatPositionAt(beats, onset.time) - downbeatPhase)
+    .sort((a, b) => a - b)
+  const countOf = (p: number) => Math.floor(Math.round(p * perCount) / perCount)
+
+  // Keep a pickup bar when the take starts before the first downbeat
+  const firstBar = positions.length > 0 ? Math.min(0, Math.floor(countOf(positions[0]) / countsPerBar)) : 0
+  const fromStart = positions.map(p => p - firstBar * countsPerBar)
+
+  const usedBars = Math.max(1, Math.ceil((countOf(fromStart[fromStart.length - 1] ?? 0) + 1) / countsPerBar))
+  const bars = usedBars <= 2 ? 2 : maxBars
+  // Cell within its count for a count split into `cells`; `cells` itself is the next downbeat
+  const subOf = (p: number, cells: number) => Math.max(0, Math.min(cells, Math.round((p - countOf(p)) * cells)))
+  const subdivisions = fillSubdivisions(timeSignature, bars * countsPerBar).map((cells, count) => {
+    if (subdivision !== 'triplet') return cells
+    const notes = fromStart.filter(p => countOf(p) === count)
+    const fit = (split: number) => {
+      const subs = notes.map(p => subOf(p, split))
+      const error = notes.reduce((sum, p, i) => sum + Math.abs(p - count - subs[i] / split), 0)
+      return { distinct: new Set(subs).size, error }
+    }
+    const sixteenths = fit(cells)
+    const triplet = fit(3)
+    const better = triplet.distinct > sixteenths.distinct ||
+      (triplet.distinct === sixteenths.distinct && triplet.error < sixteenths.error - 1e-9)
+    return better ? 3 : cells
+  })
+  const starts = countStarts(subdivisions)
+  const totalCells = starts[subdivisions.length]
+
+  const snapped = fromStart.map(p => {
+    const count = countOf(p)
+    return count < subdivisions.length
+      ? starts[count] + subOf(p, subdivisions[count])
+      : totalCells // past the last bar, dropped below
+  })
+  const inBars = snapped.filter(cell => cell < totalCells)
+  const kept = Array.from(new Set(inBars))
+  const places = cellPlaces(subdivisions)
+  const straight = (cell: number) => isStraightCount(timeSignature, places[cell].cells)
+
+  const pattern = new Array<boolean>(totalCells).fill(false)
+  const durations = new Array<NoteDuration>(totalCells).fill('16th')
+  kept.forEach((cell, i) => {
+    const next = kept[i + 1] ?? totalCells
+    pattern[cell] = true
+    if (!straight(cell)) return
+    // Straight notes can only be held over straight cells
+    let gap = 1
+    while (cell + gap < next && straight(cell + gap)) gap++
+    durations[cell] = durationForCells(gap)
+  })
+
+  return {
+    draft: {
+      bpm: Math.round(bpm),
+      pattern,
+      durations,
+      timeSignature,
+      subdivisions: compactSubdivisions(timeSignature, subdivisions, totalCells)
+    },
+    bars,
+    dropped: snapped.length - inBars.length,
+    merged: inBars.length - kept.length,
+  }
+}
@@ -0,0 +1,101 @@
+import type { SavedPattern } from "./pattern-storage"
+import { cellsPerCount, normalizeTimeSignature, type TimeSignature } from "./time-signature"
+
+// Per-count subdivisions. Every count of a pattern is split into its own number of equal
+// cells - straight 16ths (4 per quarter count, 2 per eighth count), 8th triplets (3),
+// 16th triplets (6) or quintuplets (5) - and the pattern's cells run through the counts
+// in order. Patterns without subdivisions are straight 16ths throughout.
+
+export interface SubdivisionOption {
+  cells: number // cells in one count
+  label: string
+  short: string // for the narrow count headers in the editor
+}
+
+export interface CellPlace {
+  count: number // count from the start of the pattern
+  sub: number // cell within the count
+  cells: number // cells in that count
+}
+
+export const DEFAULT_SWING = 50 // share (%) of each straight count taken by its first half
+export const MAX_SWING = 75
+
+export function subdivisionOptions(timeSignature: TimeSignature): SubdivisionOption[] {
+  if (timeSignature.denominator === 8) {
+    return [
+      { cells: 2, label: '16ths', short: '16' },
+      { cells: 3, label: '16th triplets', short: '3' },
+    ]
+  }
+  return [
+    { cells: 4, label: '16ths', short: '16' },
+    { cells: 3, label: '8th triplets', short: '3' },
+    { cells: 6, label: '16th triplets', short: '6' },
+    { cells: 5, label: 'Quintuplets', short: '5' },
+  ]
+}
+
+export function isStraightCount(timeSignature: TimeSignature, cells: number): boolean {
+  return cells === cellsPerCount(timeSignature)
+}
+
+// Cells per count for `counts` counts; counts the stored list doesn't reach are straight
+export function fillSubdivisions(timeSignature: TimeSignature, counts: number, subdivisions: number[] = []): number[] {
+  return Array.from({ length: counts }, (_, count) => subdivisions[count] ?? cellsPerCount(timeSignature))
+}
+
+// First cell of each count, followed by the total number of cells
+export function countStarts(subdivisions: number[]): number[] {
+  const starts = [0]
+  for (const cells of subdivisions) starts.push(starts[starts.length - 1] + cells)
+  return starts
+}
+
+export function cellPlaces(subdivisions: number[]): CellPlace[] {
+  return subdivisions.flatMap((cells, count) => Array.from({ length: cells }, (_, sub) => ({ count, sub, cells })))
+}
+
+// Position of a cell in counts. Swing pushes the second half of a straight count late:
+// at 67% the "&" lands on the last triplet, at 75% where the "a" would be.
+export function cellPosition(place: CellPlace, straight: boolean, swing = DEFAULT_SWING): number {
+  const fraction = place.sub / place.cells
+  if (!straight || swing === DEFAULT_SWING) return place.count + fraction
+  const firstHalf = swing / 100
+  return place.count + (fraction < 0.5
+    ? fraction * 2 * firstHalf
+    : firstHalf + (fraction - 0.5) * 2 * (1 - firstHalf))
+}
+
+// For each cell of the `from` layout, the nearest cell of the `to` layout (same counts,
+// different subdivisions), or null when it would fall past the last count
+export function remapCells(from: number[], to: number[]): (number | null)[] {
+  const toStarts = countStarts(to)
+  return cellPlaces(from).map(({ count, sub, cells }) => {
+    if (count >= to.length) return null
+    // Rounding up (the last 16th of 4 into 2 cells) must stay within its own count
+    const target = toStarts[count] + Math.min(to[count] - 1, Math.round(sub / cells * to[count]))
+    return target < toStarts[toStarts.length - 1] ? target : null
+  })
+}
+
+// What to store with a pattern of `cellCount` cells: nothing if every count is straight
+export function compactSubdivisions(timeSignature: TimeSignature, subdivisions: number[], cellCount: number): number[] | undefined {
+  const starts = countStarts(subdivisions)
+  const counts = starts.findIndex(start => start >= cellCount)
+  const used = subdivisions.slice(0, counts < 0 ? subdivisions.length : counts)
+  return used.every(cells => isStraightCount(timeSignature, cells)) ? undefined : used
+}
+
+// Where each cell of a saved pattern falls, in counts from its start, with its swing
+// applied, whether it is in a straight count, and how many counts the pattern spans
+export function patternLayout(pattern: Pick<SavedPattern, 'pattern' | 'timeSignature' | 'subdivisions' | 'swing'>): { positions: number[]; straight: boolean[]; counts: number } {
+  const timeSignature = normalizeTimeSignature(pattern.timeSignature)
+  const stored = pattern.subdivisions ?? []
+  const storedCells = countStarts(stored)[stored.length]
+  const counts = stored.length + Math.ceil(Math.max(0, pattern.pattern.length - storedCells) / cellsPerCount(timeSignature))
+  const places = cellPlaces(fillSubdivisions(timeSignature, counts, stored)).slice(0, pattern.pattern.length)
+  const straight = places.map(place => isStraightCount(timeSignature, place.cells))
+  const positions = places.map((place, cell) => cellPosition(place, straight[cell], pattern.swing))
+  return { positions, straight, counts }
+}
@@ -0,0 +1,91 @@
+import { beatPositionAt, beatTimeAt, createUniformBeatTrack, type AnalysisResult } from "./analysis"
+import { cellsPerBar, cellsPerCount } from "./time-signature"
+
+export interface GridNote {
+  cell: number // 16th-grid cell counted from the first downbeat (negative = pickup)
+  offsetMs: number // negative = early, positive = late
+  time: number
+}
+
+export type DeltaChange = 'improved' | 'regressed' | 'same' | 'added' | 'dropped'
+
+export interface OnsetDelta {
+  cell: number
+  a: GridNote | null // null = not played in take A
+  b: GridNote | null
+  change: DeltaChange
+}
+
+export interface TakeComparison {
+  deltas: OnsetDelta[]
+  improved: number
+  regressed: number
+  added: number
+  dropped: number
+}
+
+// Beats of a result, falling back to an even grid from t=0 like the rhythm grid does
+export function resultBeatTrack(result: AnalysisResult): { beats: number[]; downbeatPhase: number } {
+  return result.beats.length >= 2
+    ? result
+    : createUniformBeatTrack(result.estimatedBPM || 120, result.duration, 0, result.timeSignature.numerator)
+}
+
+// Musical position (in counts from the first downbeat) of a time in a take
+export function positionInTake(result: AnalysisResult, time: number): number {
+  const { beats, downbeatPhase } = resultBeatTrack(result)
+  return beatPositionAt(beats, time) - downbeatPhase
+}
+
+// Each note of a take snapped to its nearest 16th. Where two notes share a cell the
+// closer one stands for it, the other is a flam or a double trigger.
+export function gridNotes(result: AnalysisResult): GridNote[] {
+  const { beats, downbeatPhase } = resultBeatTrack(result)
+  const perCount = cellsPerCount(result.timeSignature)
+  const byCell = new Map<number, GridNote>()
+
+  for (const onset of result.onsets) {
+    const cell = Math.round((beatPositionAt(beats, onset.time) - downbeatPhase) * perCount)
+    const offsetMs = 1000 * (onset.time - beatTimeAt(beats, downbeatPhase + cell / perCount))
+    const existing = byCell.get(cell)
+    if (!existing || Math.abs(offsetMs) < Math.abs(existing.offsetMs)) {
+      byCell.set(cell, { cell, offsetMs, time: onset.time })
+    }
+  }
+  return Array.from(byCell.values()).sort((x, y) => x.cell - y.cell)
+}
+
+// Note-by-note change from take A to take B, matched by grid cell so takes at different
+// tempos still line up. Offsets within `sameMs` of each other count as unchanged.
+export function compareTakes(a: AnalysisResult, b: AnalysisResult, sameMs = 5): TakeComparison {
+  const notesA = new Map(gridNotes(a).map(note => [note.cell, note]))
+  const notesB = new Map(gridNotes(b).map(note => [note.cell, note]))
+  const cells = Array.from(new Set(Array.from(notesA.keys()).concat(Array.from(notesB.keys())))).sort((x, y) => x - y)
+
+  const deltas = cells.map((cell): OnsetDelta => {
+    const noteA = notesA.get(cell) ?? null
+    const noteB = notesB.get(cell) ?? null
+    let change: DeltaChange
+    if (!noteA) change = 'added'
+    else if (!noteB) change = 'dropped'
+    else {
+      const diff = Math.abs(noteB.offsetMs) - Math.abs(noteA.offsetMs)
+      change = diff < -sameMs ? 'improved' : diff > sameMs ? 'regressed' : 'same'
+    }
+    return { cell, a: noteA, b: noteB, change }
+  })
+
+  const count = (change: DeltaChange) => deltas.filter(delta => delta.change === change).length
+  return { deltas, improved: count('improved'), regressed: count('regressed'), added: count('added'), dropped: count('dropped') }
+}
+
+// "3.2e" style label for a cell: bar, count and 16th syllable
+export function formatCell(result: AnalysisResult, cell: number): string {
+  const perCount = cellsPerCount(result.timeSignature)
+  const perBar = cellsPerBar(result.timeSignature)
+  const bar = Math.floor(cell / perBar) + 1
+  const inBar = ((cell % perBar) + perBar) % perBar
+  const syllables = perCount === 4 ? ['', 'e', '+', 'a'] : ['', '+']
+  const label = `${Math.floor(inBar / perCount) + 1}${syllables[inBar % perCount]}`
+  return bar < 1 ? `pickup ${label}` : `${bar}.${label}`
+}
@@ -0,0 +1,162 @@
+// Takes from the analyzer, kept in IndexedDB so a practice session survives reloads.
+// Summaries and audio live in separate stores so listing takes doesn't load every recording.
+
+import { beatPositionAt, beatTimeAt, type AnalysisResult } from "./analysis"
+import type { RecordingMetadata } from "./audio/recording"
+import { cellsPerCount } from "./time-signature"
+
+const DB_NAME = "rhythm-takes"
+const DB_VERSION = 1
+const TAKES_STORE = "takes"
+const AUDIO_STORE = "audio"
+
+// Recordings are stored as raw PCM (about 10 MB per minute of mono audio), so the history
+// is capped and the oldest takes make way for new ones
+const MAX_TAKES = 30
+const MAX_STORED_SECONDS = 15 * 60
+
+export interface TakeAccuracy {
+  notes: number
+  onGridPercent: number // notes within 20ms of a 16th of the beat grid
+  meanAbsOffsetMs: number // average distance to the nearest 16th
+  practiceScore?: number // when the take was scored against a pattern
+}
+
+export interface StoredTake {
+  id: string
+  name: string
+  createdAt: string
+  source: 'recording' | 'upload'
+  duration: number
+  recording?: RecordingMetadata // needed to re-analyze a metronome take the same way
+  result: AnalysisResult | null
+  accuracy: TakeAccuracy | null
+  warnings: string[]
+}
+
+interface StoredAudio {
+  id: string
+  sampleRate: number
+  channels: Float32Array[]
+}
+
+// How closely the notes of a take sit on the 16th grid it was analyzed against
+export function takeAccuracy(result: AnalysisResult, practiceScore?: number): TakeAccuracy {
+  const perCount = cellsPerCount(result.timeSignature)
+  const offsets = result.onsets.map(onset => {
+    const cell = Math.round(beatPositionAt(result.beats, onset.time) * perCount)
+    return Math.abs(onset.time - beatTimeAt(result.beats, cell / perCount))
+  })
+  const notes = offsets.length
+  return {
+    notes,
+    onGridPercent: notes > 0 ? Math.round(100 * offsets.filter(offset => offset < 0.02).length / notes) : 0,
+    meanAbsOffsetMs: notes > 0 ? 1000 * offsets.reduce((sum, v) => sum + v, 0) / notes : 0,
+    practiceScore,
+  }
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(TAKES_STORE, { keyPath: 'id' })
+        request.result.createObjectStore(AUDIO_STORE, { keyPath: 'id' })
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        databasePromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return databasePromise
+}
+
+// Run `work` in one transaction and resolve once it has committed
+async function transact<T>(
+  stores: string[],
+  mode: IDBTransactionMode,
+  work: (transaction: IDBTransaction) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const db = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(stores, mode)
+    const request = work(transaction)
+    transaction.oncomplete = () => resolve(request ? request.result : undefined)
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+export function generateTakeId(): string {
+  return `take_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`
+}
+
+// Newest first
+export async function listTakes(): Promise<StoredTake[]> {
+  const takes = await transact<StoredTake[]>([TAKES_STORE], 'readonly', transaction =>
+    transaction.objectStore(TAKES_STORE).getAll()
+  )
+  return (takes ?? []).sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+// Takes past the history limits, oldest first to go; the newest is always kept
+function takesOverLimit(takes: StoredTake[]): string[] {
+  const newestFirst = [...takes].sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+  let seconds = 0
+  return newestFirst
+    .filter((take, index) => {
+      seconds += take.duration
+      return index > 0 && (index >= MAX_TAKES || seconds > MAX_STORED_SECONDS)
+    })
+    .map(take => take.id)
+}
+
+// Resolves to the ids of the older takes evicted to make room
+export async function saveTake(take: StoredTake, audio: AudioBuffer): Promise<string[]> {
+  const channels = Array.from({ length: audio.numberOfChannels }, (_, i) => audio.getChannelData(i).slice())
+  const evicted: string[] = []
+  await transact([TAKES_STORE, AUDIO_STORE], 'readwrite', transaction => {
+    const takes = transaction.objectStore(TAKES_STORE)
+    const audioStore = transaction.objectStore(AUDIO_STORE)
+    takes.put(take)
+    audioStore.put({ id: take.id, sampleRate: audio.sampleRate, channels } satisfies StoredAudio)
+    const all = takes.getAll()
+    all.onsuccess = () => {
+      takesOverLimit(all.result).forEach(id => {
+        takes.delete(id)
+        audioStore.delete(id)
+        evicted.push(id)
+      })
+    }
+  })
+  return evicted
+}
+
+export async function updateTake(take: StoredTake): Promise<void> {
+  await transact([TAKES_STORE], 'readwrite', transaction => {
+    transaction.objectStore(TAKES_STORE).put(take)
+  })
+}
+
+export async function deleteTake(id: string): Promise<void> {
+  await transact([TAKES_STORE, AUDIO_STORE], 'readwrite', transaction => {
+    transaction.objectStore(TAKES_STORE).delete(id)
+    transaction.objectStore(AUDIO_STORE).delete(id)
+  })
+}
+
+export async function loadTakeAudio(context: BaseAudioContext, id: string): Promise<AudioBuffer | null> {
+  const audio = await transact<StoredAudio | undefined>([AUDIO_STORE], 'readonly', transaction =>
+    transaction.objectStore(AUDIO_STORE).get(id)
+  )
+  if (!audio || audio.channels.length === 0) return null
+
+  const buffer = context.createBuffer(audio.channels.length, audio.channels[0].length, audio.sampleRate)
+  audio.channels.forEach((data, i) => buffer.copyToChannel(data, i))
+  return buffer
+}
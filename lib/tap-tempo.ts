@@ -0,0 +1,41 @@
+// Tempo from a run of taps (mouse, keyboard, MIDI or taps picked up by the mic).
+// Recent intervals are averaged once stray ones - a double tap, a missed tap - are dropped.
+
+export const MIN_TAP_BPM = 40
+export const MAX_TAP_BPM = 300
+
+const TAP_RESET_SECONDS = 2 // a longer pause starts a new run of taps
+const MAX_INTERVALS = 8 // only the latest taps count, so the estimate follows tempo changes
+const OUTLIER_TOLERANCE = 0.25 // intervals further than this from the median are dropped
+
+export interface TapEstimate {
+  bpm: number
+  intervals: number // intervals averaged
+  rejected: number // intervals dropped as outliers
+}
+
+// Add a tap (seconds, any clock) to a run, starting over after a long pause
+export function appendTap(taps: number[], time: number): number[] {
+  const last = taps[taps.length - 1]
+  if (last === undefined || time - last > TAP_RESET_SECONDS || time <= last) return [time]
+  return [...taps, time].slice(-(MAX_INTERVALS + 1))
+}
+
+// Needs at least three taps with two intervals that agree
+export function estimateTapTempo(taps: number[]): TapEstimate | null {
+  const intervals = taps.slice(1).map((time, i) => time - taps[i])
+  if (intervals.length < 2) return null
+
+  const sorted = [...intervals].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  const median = sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+  const kept = intervals.filter(interval => Math.abs(interval - median) <= OUTLIER_TOLERANCE * median)
+  if (kept.length < 2) return null
+
+  const mean = kept.reduce((sum, interval) => sum + interval, 0) / kept.length
+  return {
+    bpm: Math.round(Math.min(MAX_TAP_BPM, Math.max(MIN_TAP_BPM, 60 / mean))),
+    intervals: kept.length,
+    rejected: intervals.length - kept.length,
+  }
+}
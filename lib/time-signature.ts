@@ -0,0 +1,135 @@
+// Time signatures and beat grouping shared by the metronome, the analysis grid and the
+// pattern editor. A "count" is one denominator note (a quarter in x/4, an eighth in x/8);
+// BPM always refers to counts, and the editor grid is laid out in 16th-note cells.
+
+export interface TimeSignature {
+  numerator: number // counts per bar
+  denominator: 4 | 8
+  grouping: number[] // counts per accent group, summing to the numerator (7/8 as [2, 2, 3])
+}
+
+export interface TimeSignaturePreset {
+  numerator: number
+  denominator: 4 | 8
+  groupings: number[][] // first entry is the default
+}
+
+export type CountAccent = 'downbeat' | 'accent' | 'beat'
+
+// Rhythmic weight of a 16th cell: bar start, group start (or any quarter count),
+// other counts and 8th subdivisions, then plain 16ths
+export type CellLevel = 'measure' | 'beat' | 'eighth' | 'sixteenth'
+
+export const DEFAULT_TIME_SIGNATURE: TimeSignature = { numerator: 4, denominator: 4, grouping: [4] }
+
+export const TIME_SIGNATURE_PRESETS: TimeSignaturePreset[] = [
+  { numerator: 4, denominator: 4, groupings: [[4], [2, 2]] },
+  { numerator: 3, denominator: 4, groupings: [[3]] },
+  { numerator: 5, denominator: 4, groupings: [[3, 2], [2, 3]] },
+  { numerator: 6, denominator: 8, groupings: [[3, 3]] },
+  { numerator: 7, denominator: 8, groupings: [[2, 2, 3], [3, 2, 2], [2, 3, 2]] },
+  { numerator: 12, denominator: 8, groupings: [[3, 3, 3, 3]] },
+]
+
+export function formatTimeSignature(timeSignature: TimeSignature): string {
+  return `${timeSignature.numerator}/${timeSignature.denominator}`
+}
+
+export function formatGrouping(grouping: number[]): string {
+  return grouping.join('+')
+}
+
+// Odd and compound meters (and 4/4 as 2+2) can be felt in more than one grouping
+export function canRegroup(timeSignature: TimeSignature): boolean {
+  return timeSignature.numerator > 3
+}
+
+// A grouping typed as "3+2+2" (spaces or commas also separate groups), or null unless
+// every group is a whole number of counts and together they fill the bar
+export function parseGrouping(text: string, numerator: number): number[] | null {
+  const parts = text.split(/[\s+,]+/).filter(Boolean)
+  if (parts.length === 0 || !parts.every(part => /^\d+$/.test(part))) return null
+  const grouping = parts.map(Number)
+  if (grouping.some(size => size < 1)) return null
+  return grouping.reduce((total, size) => total + size, 0) === numerator ? grouping : null
+}
+
+export function timeSignatureFromPreset(preset: TimeSignaturePreset, grouping = preset.groupings[0]): TimeSignature {
+  return { numerator: preset.numerator, denominator: preset.denominator, grouping: [...grouping] }
+}
+
+export function findPreset(timeSignature: TimeSignature): TimeSignaturePreset | undefined {
+  return TIME_SIGNATURE_PRESETS.find(
+    preset => preset.numerator === timeSignature.numerator && preset.denominator === timeSignature.denominator
+  )
+}
+
+// Accept a stored or partial signature, falling back to 4/4 and repairing a grouping
+// that doesn't add up to the numerator
+export function normalizeTimeSignature(value?: Partial<TimeSignature> | null): TimeSignature {
+  if (!value || !value.numerator || (value.denominator !== 4 && value.denominator !== 8)) {
+    return DEFAULT_TIME_SIGNATURE
+  }
+  const { numerator, denominator } = value
+  const grouping = value.grouping ?? []
+  const sum = grouping.reduce((total, size) => total + size, 0)
+  if (grouping.length > 0 && grouping.every(size => size > 0) && sum === numerator) {
+    return { numerator, denominator, grouping }
+  }
+  const preset = findPreset({ numerator, denominator, grouping: [] })
+  return { numerator, denominator, grouping: preset ? [...preset.groupings[0]] : [numerator] }
+}
+
+export function cellsPerCount(timeSignature: TimeSignature): number {
+  return 16 / timeSignature.denominator
+}
+
+export function cellsPerBar(timeSignature: TimeSignature): number {
+  return timeSignature.numerator * cellsPerCount(timeSignature)
+}
+
+// Count indices (0-based) on which each accent group starts
+export function groupStarts(timeSignature: TimeSignature): number[] {
+  const starts: number[] = []
+  let count = 0
+  for (const size of timeSignature.grouping) {
+    starts.push(count)
+    count += size
+  }
+  return starts
+}
+
+export function countAccent(timeSignature: TimeSignature, count: number): CountAccent {
+  const inBar = ((count % timeSignature.numerator) + timeSignature.numerator) % timeSignature.numerator
+  if (inBar === 0) return 'downbeat'
+  return groupStarts(timeSignature).includes(inBar) ? 'accent' : 'beat'
+}
+
+export function cellLevel(timeSignature: TimeSignature, cell: number): CellLevel {
+  const perCount = cellsPerCount(timeSignature)
+  const perBar = cellsPerBar(timeSignature)
+  const inBar = ((cell % perBar) + perBar) % perBar
+  const count = Math.floor(inBar / perCount)
+  const sub = inBar % perCount
+
+  if (inBar === 0) return 'measure'
+  if (sub === 0) {
+    // Quarter counts are all beats; eighth counts only where a group starts
+    if (timeSignature.denominator === 4 || countAccent(timeSignature, count) !== 'beat') return 'beat'
+    return 'eighth'
+  }
+  return perCount === 4 && sub === 2 ? 'eighth' : 'sixteenth'
+}
+
+// Re-lay bar-aligned cells for a different bar length, keeping each bar's opening cells
+export function resizeBars<T>(cells: T[], fromCellsPerBar: number, toCellsPerBar: number, fill: T): T[] {
+  const bars = Math.max(1, Math.round(cells.length / fromCellsPerBar))
+  const resized = new Array<T>(bars * toCellsPerBar).fill(fill)
+  for (let bar = 0; bar < bars; bar++) {
+    for (let i = 0; i < Math.min(fromCellsPerBar, toCellsPerBar); i++) {
+      const value = cells[bar * fromCellsPerBar + i]
+      if (value !== undefined) resized[bar * toCellsPerBar + i] = value
+    }
+  }
+  return resized
+}
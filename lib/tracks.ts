@@ -0,0 +1,81 @@
+import { DEFAULT_VELOCITY } from "./dynamics"
+import type { PatternTrack, TrackMix, TrackSound } from "./pattern-storage"
+
+// Drum tracks under the main (strum) pattern: kick, snare, hi-hat or clap hits on the
+// same cells as the main pattern, each with its own volume, mute and solo. The main
+// pattern keeps its own fields so everything that reads `pattern` (practice scoring,
+// quantized takes) still sees the guitar part alone.
+
+export interface TrackSoundOption {
+  sound: TrackSound
+  label: string
+  color: string // hit colour in the grid
+  midiNote: number // GM percussion
+}
+
+export const TRACK_SOUNDS: TrackSoundOption[] = [
+  { sound: 'kick', label: 'Kick', color: 'bg-orange-500', midiNote: 36 },
+  { sound: 'snare', label: 'Snare', color: 'bg-cyan-600', midiNote: 38 },
+  { sound: 'hat', label: 'Hi-hat', color: 'bg-lime-600', midiNote: 42 },
+  { sound: 'clap', label: 'Clap', color: 'bg-fuchsia-500', midiNote: 39 },
+]
+
+export const MAX_TRACKS = 6
+
+export function trackSoundOption(sound: TrackSound): TrackSoundOption {
+  return TRACK_SOUNDS.find(option => option.sound === sound) ?? TRACK_SOUNDS[0]
+}
+
+export function createTrack(sound: TrackSound, cells: number, existing: PatternTrack[] = []): PatternTrack {
+  const label = trackSoundOption(sound).label
+  const sameSound = existing.filter(track => track.sound === sound).length
+  return {
+    id: `track_${Date.now()}_${Math.random().toString(36).substring(2, 7)}`,
+    name: sameSound > 0 ? `${label} ${sameSound + 1}` : label,
+    sound,
+    pattern: new Array(cells).fill(false),
+  }
+}
+
+// A solo on any track silences every track that isn't soloed; mute always wins
+export function isAudible(mix: TrackMix, anySolo: boolean): boolean {
+  return !mix.muted && (!anySolo || !!mix.solo)
+}
+
+export function mixVolume(mix: TrackMix): number {
+  return mix.volume ?? 1
+}
+
+// Apply the same per-cell edit (copy a bar, move to new subdivisions, ...) to a track's
+// hits and velocities
+export function mapTrackCells(track: PatternTrack, edit: <T>(values: T[], fill: T) => T[]): PatternTrack {
+  return {
+    ...track,
+    pattern: edit(track.pattern, false),
+    velocities: track.velocities && edit(track.velocities, DEFAULT_VELOCITY),
+  }
+}
+
+// What to store of a mix: only the fields that differ from the defaults
+export function compactMix(mix: TrackMix): TrackMix | undefined {
+  const compact: TrackMix = {
+    ...(mix.volume !== undefined && mix.volume !== 1 ? { volume: mix.volume } : {}),
+    ...(mix.muted ? { muted: true } : {}),
+    ...(mix.solo ? { solo: true } : {}),
+  }
+  return Object.keys(compact).length > 0 ? compact : undefined
+}
+
+// What to store of a track: velocities only when a hit isn't mezzo-forte
+export function compactTrack(track: PatternTrack, cells: number): PatternTrack {
+  const pattern = track.pattern.slice(0, cells)
+  const velocities = track.velocities?.slice(0, cells)
+  return {
+    id: track.id,
+    name: track.name,
+    sound: track.sound,
+    pattern,
+    ...(velocities && pattern.some((on, cell) => on && velocities[cell] !== DEFAULT_VELOCITY) ? { velocities } : {}),
+    ...compactMix(track),
+  }
+}
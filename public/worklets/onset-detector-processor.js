@@ -0,0 +1,75 @@
+// Streaming onset detector: the rise in log energy of the first-differenced input (which
+// favours pick attacks over sustained notes) is compared against an adaptive threshold
+// over the last fraction of a second. Each onset is posted with its context time.
+
+const HOP = 256
+const HISTORY_SECONDS = 0.4
+
+class OnsetDetectorProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super()
+    const {
+      sensitivity = 2.5, // standard deviations above the recent mean
+      minRise = 0.3, // smallest log10 energy rise per hop that can be an onset
+      minInterval = 0.05, // seconds between onsets
+      floor = 1e-6, // energy below this is treated as silence
+    } = options.processorOptions || {}
+    this.sensitivity = sensitivity
+    this.minRise = minRise
+    this.minInterval = minInterval
+    this.floor = floor
+
+    this.previousSample = 0
+    this.energy = 0
+    this.filled = 0
+    this.previousLevel = Math.log10(floor)
+    this.history = []
+    this.historyLength = Math.max(8, Math.round((HISTORY_SECONDS * sampleRate) / HOP))
+    this.lastOnset = -Infinity
+    this.active = true
+
+    this.port.onmessage = (event) => {
+      if (event.data.type === "stop") this.active = false
+    }
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0]
+    if (!channel) return this.active
+
+    const blockTime = currentFrame / sampleRate
+    for (let i = 0; i < channel.length; i++) {
+      const difference = channel[i] - this.previousSample
+      this.previousSample = channel[i]
+      this.energy += difference * difference
+      if (++this.filled === HOP) {
+        this.endHop(blockTime + (i + 1 - HOP) / sampleRate)
+        this.energy = 0
+        this.filled = 0
+      }
+    }
+    return this.active
+  }
+
+  endHop(time) {
+    const energy = this.energy / HOP
+    const level = Math.log10(Math.max(energy, this.floor))
+    const rise = Math.max(0, level - this.previousLevel)
+    this.previousLevel = level
+
+    const count = this.history.length
+    const mean = count > 0 ? this.history.reduce((sum, v) => sum + v, 0) / count : 0
+    const variance = count > 0 ? this.history.reduce((sum, v) => sum + (v - mean) * (v - mean), 0) / count : 0
+    const threshold = Math.max(this.minRise, mean + this.sensitivity * Math.sqrt(variance))
+
+    this.history.push(rise)
+    if (this.history.length > this.historyLength) this.history.shift()
+
+    if (rise > threshold && energy > this.floor && time - this.lastOnset >= this.minInterval) {
+      this.lastOnset = time
+      this.port.postMessage({ type: "onset", time, strength: rise })
+    }
+  }
+}
+
+registerProcessor("onset-detector", OnsetDetectorProcessor)
@@ -0,0 +1,65 @@
+// Collects the raw input samples between "start" and "stop" messages and posts them to
+// the main thread in chunks, so a take never goes through a lossy encoder. The first
+// message after "start" reports the context time of the first captured frame.
+
+const CHUNK_FRAMES = 8192
+
+class PcmRecorderProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super()
+    this.recording = false
+    this.started = false
+    this.finished = false
+    this.blocks = []
+    this.frames = 0
+
+    this.port.onmessage = (event) => {
+      if (event.data.type === "start") {
+        this.recording = true
+      } else if (event.data.type === "stop") {
+        this.flush()
+        this.recording = false
+        this.finished = true
+        this.port.postMessage({ type: "stopped" })
+      }
+    }
+  }
+
+  process(inputs) {
+    const input = inputs[0]
+    if (!this.recording || !input || input.length === 0) return !this.finished
+
+    if (!this.started) {
+      this.started = true
+      this.port.postMessage({ type: "started", time: currentFrame / sampleRate })
+    }
+
+    // Blocks are reused by the engine, so copy them
+    input.forEach((channel, i) => {
+      if (!this.blocks[i]) this.blocks[i] = []
+      this.blocks[i].push(channel.slice())
+    })
+    this.frames += input[0].length
+    if (this.frames >= CHUNK_FRAMES) this.flush()
+
+    return true
+  }
+
+  flush() {
+    if (this.frames === 0) return
+    const channels = this.blocks.map(blocks => {
+      const data = new Float32Array(this.frames)
+      let offset = 0
+      for (const block of blocks) {
+        data.set(block.subarray(0, Math.min(block.length, this.frames - offset)), offset)
+        offset += block.length
+      }
+      return data
+    })
+    this.port.postMessage({ type: "data", channels }, channels.map(data => data.buffer))
+    this.blocks = []
+    this.frames = 0
+  }
+}
+
+registerProcessor("pcm-recorder", PcmRecorderProcessor)
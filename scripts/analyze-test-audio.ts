@@ -0,0 +1,34 @@
+import { performance } from "node:perf_hooks"
+import { analyzeAudio } from "../lib/analysis"
+import { loadFixtures } from "./wav"
+
+// Headless run of the analysis pipeline over every clip in test-audio/: onsets, tempo
+// estimate and tracked beats per clip, with timings. Pass a name fragment to run a
+// subset, e.g. `npm run analyze:fixtures -- funk`.
+
+const filter = process.argv[2]
+const fixtures = loadFixtures().filter(fixture => !filter || fixture.name.includes(filter))
+if (fixtures.length === 0) {
+  console.error(`No test-audio clips match "${filter}"`)
+  process.exit(1)
+}
+
+let total = 0
+for (const fixture of fixtures) {
+  const started = performance.now()
+  const analysis = analyzeAudio(fixture.data, fixture.sampleRate)
+  const elapsed = performance.now() - started
+  total += elapsed
+
+  const seconds = fixture.data.length / fixture.sampleRate
+  const tempo = analysis.tempo
+  console.log(`${fixture.name} (${seconds.toFixed(1)}s @ ${fixture.sampleRate} Hz)`)
+  console.log(`  onsets: ${analysis.onsets.length}, first at ${analysis.onsets[0]?.time.toFixed(3) ?? '-'}s`)
+  console.log(`  tempo:  ${tempo ? `${tempo.bpm} BPM (confidence ${tempo.confidence.toFixed(2)})` : 'none'}${fixture.bpm ? `, labelled ${fixture.bpm}` : ''}`)
+  if (tempo) {
+    console.log(`          candidates ${tempo.candidates.map(c => `${c.bpm} ${c.relation} ${c.score.toFixed(2)}`).join(', ')}`)
+  }
+  console.log(`  beats:  ${analysis.beatTrack ? `${analysis.beatTrack.beats.length}, downbeat phase ${analysis.beatTrack.downbeatPhase}` : 'none'}`)
+  console.log(`  time:   ${elapsed.toFixed(0)} ms`)
+}
+console.log(`\n${fixtures.length} clips in ${(total / 1000).toFixed(2)}s`)
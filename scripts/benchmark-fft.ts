@@ -0,0 +1,87 @@
+import { performance } from "node:perf_hooks"
+import { DEFAULT_DETECTION_OPTIONS, computeOnsetEnvelope, pickOnsets, type OnsetEnvelope } from "../lib/analysis"
+import { loadFixtures } from "./wav"
+
+// FFT vs. the naive DFT the analyzer used before: the onset envelope of every clip in
+// test-audio/ both ways, with timings and the largest difference in envelope and in
+// picked onset times. The DFT takes ~20s per 8s clip; `--seconds=N` trims each clip.
+
+const secondsArg = process.argv.find(arg => arg.startsWith("--seconds="))
+const maxSeconds = secondsArg ? Number(secondsArg.split("=")[1]) : Infinity
+
+// The previous detector, kept verbatim apart from returning an envelope: an O(N^2) DFT
+// per frame, log1p magnitudes, half-wave rectified spectral flux
+function dftEnvelope(data: Float32Array, sampleRate: number): OnsetEnvelope {
+  const { fftSize, hopSize } = DEFAULT_DETECTION_OPTIONS
+  const window = new Float32Array(fftSize)
+  for (let i = 0; i < fftSize; i++) window[i] = 0.5 * (1 - Math.cos(2 * Math.PI * i / (fftSize - 1)))
+
+  const computeSpectrum = (frame: Float32Array): Float32Array => {
+    const spectrum = new Float32Array(fftSize / 2)
+    for (let k = 0; k < fftSize / 2; k++) {
+      let real = 0, imag = 0
+      for (let n = 0; n < frame.length; n++) {
+        const angle = -2 * Math.PI * k * n / fftSize
+        real += frame[n] * Math.cos(angle)
+        imag += frame[n] * Math.sin(angle)
+      }
+      spectrum[k] = Math.log1p(Math.sqrt(real * real + imag * imag))
+    }
+    return spectrum
+  }
+
+  const spectra: Float32Array[] = []
+  for (let pos = 0; pos + fftSize <= data.length; pos += hopSize) {
+    const frame = new Float32Array(fftSize)
+    for (let i = 0; i < fftSize; i++) frame[i] = data[pos + i] * window[i]
+    spectra.push(computeSpectrum(frame))
+  }
+
+  const values = new Float64Array(Math.max(0, spectra.length - 1))
+  for (let i = 1; i < spectra.length; i++) {
+    let v = 0
+    for (let b = 1; b < spectra[i].length; b++) {
+      const d = spectra[i][b] - spectra[i - 1][b]
+      if (d > 0) v += d
+    }
+    values[i - 1] = v
+  }
+  return { values, frameRate: sampleRate / hopSize, startTime: hopSize / sampleRate }
+}
+
+let fftTotal = 0
+let dftTotal = 0
+let mismatches = 0
+for (const fixture of loadFixtures()) {
+  const data = fixture.data.subarray(0, Math.min(fixture.data.length, Math.round(maxSeconds * fixture.sampleRate)))
+
+  let started = performance.now()
+  const fast = computeOnsetEnvelope(data, fixture.sampleRate)
+  const fftMs = performance.now() - started
+  started = performance.now()
+  const slow = dftEnvelope(data, fixture.sampleRate)
+  const dftMs = performance.now() - started
+  fftTotal += fftMs
+  dftTotal += dftMs
+
+  let envelopeError = 0
+  slow.values.forEach((value, i) => {
+    envelopeError = Math.max(envelopeError, Math.abs(value - fast.values[i]) / Math.max(1, Math.abs(value)))
+  })
+  const fastOnsets = pickOnsets(fast).map(onset => onset.time)
+  const slowOnsets = pickOnsets(slow).map(onset => onset.time)
+  const same = fastOnsets.length === slowOnsets.length && fastOnsets.every((time, i) => time === slowOnsets[i])
+  if (!same) mismatches++
+
+  console.log(
+    `${fixture.name.padEnd(28)} DFT ${dftMs.toFixed(0).padStart(6)} ms  FFT ${fftMs.toFixed(1).padStart(6)} ms  ` +
+    `x${(dftMs / fftMs).toFixed(0).padStart(4)}  envelope error ${envelopeError.toExponential(1)}  ` +
+    `onsets ${same ? `identical (${fastOnsets.length})` : `DIFFER (${slowOnsets.length} vs ${fastOnsets.length})`}`
+  )
+}
+
+console.log(`\nTotal: DFT ${(dftTotal / 1000).toFixed(1)}s, FFT ${(fftTotal / 1000).toFixed(2)}s`)
+if (mismatches > 0) {
+  console.error(`${mismatches} clip(s) picked different onsets`)
+  process.exit(1)
+}
@@ -0,0 +1,196 @@
+import { patternToMidi } from "../lib/midi-export"
+import type { NoteDuration } from "../lib/pattern-storage"
+
+// Checks the MIDI export by reading each file back: the header and track chunk, the
+// tempo and time signature meta events, and the notes' ticks (delta times summed) for
+// straight, tuplet and tied notes, articulations and drum tracks. Exits non-zero on
+// any mismatch.
+
+type ExportablePattern = Parameters<typeof patternToMidi>[0]
+type Note = [key: number, on: number, off: number, velocity: number] // on and off in ticks
+
+const TICKS_PER_QUARTER = 480
+const SIDE_STICK = 37
+const KICK = 36
+
+interface MidiFile {
+  format: number
+  tracks: number
+  division: number
+  name: string | null
+  tempo: number | null // microseconds per quarter note
+  timeSignature: number[] | null
+  notes: Note[]
+  endTick: number | null
+}
+
+// Reads back a format 0 file as written by the export (no running status)
+function readMidi(bytes: Uint8Array): MidiFile {
+  let offset = 0
+  const text = (length: number) => String.fromCharCode(...Array.from(bytes.subarray(offset, offset += length)))
+  const uint = (length: number) => {
+    let value = 0
+    for (let i = 0; i < length; i++) value = value * 256 + bytes[offset++]
+    return value
+  }
+  const variableLength = () => {
+    let value = 0
+    let byte: number
+    do {
+      byte = bytes[offset++]
+      value = value * 128 + (byte & 0x7f)
+    } while (byte & 0x80)
+    return value
+  }
+
+  if (text(4) !== 'MThd' || uint(4) !== 6) throw new Error('bad header chunk')
+  const file: MidiFile = { format: uint(2), tracks: uint(2), division: uint(2), name: null, tempo: null, timeSignature: null, notes: [], endTick: null }
+  if (text(4) !== 'MTrk') throw new Error('bad track chunk')
+  const end = uint(4) + offset
+
+  const held = new Map<number, { on: number; velocity: number }>()
+  let tick = 0
+  while (offset < end) {
+    if (file.endTick !== null) throw new Error('events after End of Track')
+    tick += variableLength()
+    const status = bytes[offset++]
+    if (status === 0xff) {
+      const type = bytes[offset++]
+      const length = variableLength()
+      const data = Array.from(bytes.subarray(offset, offset += length))
+      if (type === 0x03) file.name = String.fromCharCode(...data)
+      if (type === 0x51) file.tempo = (data[0] << 16) | (data[1] << 8) | data[2]
+      if (type === 0x58) file.timeSignature = data
+      if (type === 0x2f) file.endTick = tick
+    } else if (status === 0x99 || status === 0x89) {
+      const key = bytes[offset++]
+      const velocity = bytes[offset++]
+      if (status === 0x99) {
+        if (held.has(key)) throw new Error(`note ${key} struck again at tick ${tick} before it ended`)
+        held.set(key, { on: tick, velocity })
+      } else {
+        const note = held.get(key)
+        if (!note) throw new Error(`note ${key} ended at tick ${tick} without starting`)
+        file.notes.push([key, note.on, tick, note.velocity])
+        held.delete(key)
+      }
+    } else {
+      throw new Error(`unexpected status byte ${status.toString(16)} at byte ${offset - 1}`)
+    }
+  }
+  if (offset !== end || offset !== bytes.length) throw new Error('track chunk length does not match its events')
+  if (held.size > 0) throw new Error('notes left sounding at the end of the track')
+  file.notes.sort((a, b) => a[1] - b[1] || a[0] - b[0])
+  return file
+}
+
+// A pattern of `cells` empty cells with notes of the given lengths
+function notes(cells: number, written: Record<number, NoteDuration>): Pick<ExportablePattern, 'pattern' | 'durations'> {
+  return {
+    pattern: Array.from({ length: cells }, (_, cell) => cell in written),
+    durations: Array.from({ length: cells }, (_, cell) => written[cell] ?? '16th'),
+  }
+}
+
+interface MidiCase {
+  name: string
+  pattern: ExportablePattern
+  tempo: number
+  timeSignature: number[]
+  notes: Note[]
+  endTick: number
+}
+
+const FOUR_FOUR = { numerator: 4, denominator: 4 as const, grouping: [4] }
+
+const CASES: MidiCase[] = [
+  {
+    name: "quarters in 4/4 at 120",
+    pattern: { name: 'Quarters', bpm: 120, timeSignature: FOUR_FOUR, ...notes(32, { 0: 'quarter', 4: 'quarter', 8: 'quarter', 12: 'quarter' }) },
+    tempo: 500000,
+    timeSignature: [4, 2, 24, 8],
+    notes: [[SIDE_STICK, 0, 480, 80], [SIDE_STICK, 480, 960, 80], [SIDE_STICK, 960, 1440, 80], [SIDE_STICK, 1440, 1920, 80]],
+    endTick: 3840,
+  },
+  {
+    name: "dotted quarters in 6/8 at 120",
+    pattern: { name: 'Six eight', bpm: 120, timeSignature: { numerator: 6, denominator: 8, grouping: [3, 3] }, ...notes(24, { 0: 'dotted-quarter', 6: 'dotted-quarter' }) },
+    tempo: 1000000,
+    timeSignature: [6, 3, 36, 8],
+    notes: [[SIDE_STICK, 0, 720, 80], [SIDE_STICK, 720, 1440, 80]],
+    endTick: 2880,
+  },
+  {
+    name: "7/8 grouped 2+2+3",
+    pattern: { name: 'Seven', bpm: 120, timeSignature: { numerator: 7, denominator: 8, grouping: [2, 2, 3] }, ...notes(28, {}) },
+    tempo: 1000000,
+    timeSignature: [7, 3, 12, 8],
+    notes: [],
+    endTick: 3360,
+  },
+  {
+    name: "a triplet count then a 16th",
+    pattern: { name: 'Triplet', bpm: 120, timeSignature: FOUR_FOUR, subdivisions: [3, 4, 4, 4, 4, 4, 4, 4], ...notes(31, { 0: '16th', 1: '16th', 2: '16th', 3: '16th' }) },
+    tempo: 500000,
+    timeSignature: [4, 2, 24, 8],
+    notes: [[SIDE_STICK, 0, 160, 80], [SIDE_STICK, 160, 320, 80], [SIDE_STICK, 320, 480, 80], [SIDE_STICK, 480, 600, 80]],
+    endTick: 3840,
+  },
+  {
+    name: "tied 8ths at 90",
+    pattern: { name: 'Tied', bpm: 90, timeSignature: FOUR_FOUR, ties: [true], ...notes(32, { 0: '8th', 2: '8th', 8: 'half' }) },
+    tempo: 666667,
+    timeSignature: [4, 2, 24, 8],
+    notes: [[SIDE_STICK, 0, 480, 80], [SIDE_STICK, 960, 1920, 80]],
+    endTick: 3840,
+  },
+  {
+    name: "an accent and a ghost note",
+    pattern: { name: 'Dynamics', bpm: 120, timeSignature: FOUR_FOUR, articulations: [{ accent: true }, null, null, null, { ghost: true }], ...notes(32, { 0: 'quarter', 4: 'quarter' }) },
+    tempo: 500000,
+    timeSignature: [4, 2, 24, 8],
+    notes: [[SIDE_STICK, 0, 480, 109], [SIDE_STICK, 480, 960, 36]],
+    endTick: 3840,
+  },
+  {
+    name: "drum track hits",
+    pattern: {
+      name: 'Kick',
+      bpm: 120,
+      timeSignature: FOUR_FOUR,
+      ...notes(32, {}),
+      tracks: [{ id: 'kick', name: 'Kick', sound: 'kick', pattern: [false, false, false, false, true, false, false, false, true], velocities: [80, 80, 80, 80, 80, 80, 80, 80, 100] }],
+    },
+    tempo: 500000,
+    timeSignature: [4, 2, 24, 8],
+    notes: [[KICK, 480, 600, 80], [KICK, 960, 1080, 100]],
+    endTick: 3840,
+  },
+]
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b)
+const formatNotes = (list: Note[]) => list.map(([key, on, off, velocity]) => `${key}@${on}-${off}v${velocity}`).join(' ') || 'none'
+
+let failures = 0
+for (const check of CASES) {
+  const problems: string[] = []
+  try {
+    const file = readMidi(patternToMidi(check.pattern))
+    if (file.format !== 0 || file.tracks !== 1 || file.division !== TICKS_PER_QUARTER) {
+      problems.push(`header format ${file.format}, ${file.tracks} tracks, ${file.division} ticks per quarter`)
+    }
+    if (file.name !== check.pattern.name) problems.push(`name ${file.name}, expected ${check.pattern.name}`)
+    if (file.tempo !== check.tempo) problems.push(`tempo ${file.tempo}, expected ${check.tempo}`)
+    if (!same(file.timeSignature, check.timeSignature)) problems.push(`time signature ${file.timeSignature?.join(' ')}, expected ${check.timeSignature.join(' ')}`)
+    if (!same(file.notes, check.notes)) problems.push(`notes ${formatNotes(file.notes)}, expected ${formatNotes(check.notes)}`)
+    if (file.endTick !== check.endTick) problems.push(`track ends at ${file.endTick}, expected ${check.endTick}`)
+  } catch (error) {
+    problems.push(error instanceof Error ? error.message : String(error))
+  }
+
+  if (problems.length > 0) failures++
+  console.log(`${problems.length === 0 ? 'ok  ' : 'FAIL'} ${check.name}${problems.length > 0 ? `: ${problems.join('; ')}` : ''}`)
+}
+
+console.log(`\n${CASES.length - failures}/${CASES.length} patterns export as expected`)
+if (failures > 0) process.exit(1)
@@ -0,0 +1,142 @@
+import type { OnsetData } from "../lib/analysis"
+import type { NoteDuration } from "../lib/pattern-storage"
+import { quantizeOnsets, type QuantizeSubdivision } from "../lib/quantize"
+import type { TimeSignature } from "../lib/time-signature"
+
+// Checks that "Send to editor" quantizing puts played notes in the cells a player would
+// write them in: straight and triplet counts side by side, late playing, merged and
+// dropped notes, and a pickup bar. Exits non-zero on any mismatch.
+//
+// Onsets are given in counts from bar 1 on an even 120 BPM grid that starts a bar early.
+
+const BPM = 120
+const SECONDS_PER_COUNT = 60 / BPM
+
+const FOUR_FOUR: TimeSignature = { numerator: 4, denominator: 4, grouping: [4] }
+const SIX_EIGHT: TimeSignature = { numerator: 6, denominator: 8, grouping: [3, 3] }
+
+interface QuantizeCase {
+  name: string
+  timeSignature: TimeSignature
+  subdivision: QuantizeSubdivision
+  counts: number[]
+  cells: number[] // struck cells
+  subdivisions?: number[] // left out when every count is straight
+  durations?: Record<number, NoteDuration>
+  bars?: number
+  merged?: number
+  dropped?: number
+}
+
+const CASES: QuantizeCase[] = [
+  {
+    name: "16ths in 4/4",
+    timeSignature: FOUR_FOUR,
+    subdivision: '16th',
+    counts: [0, 0.25, 0.5, 0.75, 1],
+    cells: [0, 1, 2, 3, 4],
+  },
+  {
+    name: "held notes fill the gap to the next one",
+    timeSignature: FOUR_FOUR,
+    subdivision: '16th',
+    counts: [0, 2],
+    cells: [0, 8],
+    durations: { 0: 'half' },
+  },
+  {
+    name: "a triplet count next to a 16th count",
+    timeSignature: FOUR_FOUR,
+    subdivision: 'triplet',
+    counts: [0, 1 / 3, 2 / 3, 1.5, 1.75],
+    cells: [0, 1, 2, 5, 6],
+    subdivisions: [3, 4, 4, 4, 4, 4, 4, 4],
+  },
+  {
+    // Both land on the last triplet, so the count stays in 16ths
+    name: "the & and a of a count with triplet snapping",
+    timeSignature: FOUR_FOUR,
+    subdivision: 'triplet',
+    counts: [0.5, 0.75],
+    cells: [2, 3],
+  },
+  {
+    name: "16ths played late with triplet snapping",
+    timeSignature: FOUR_FOUR,
+    subdivision: 'triplet',
+    counts: [0.03, 0.28, 0.53, 0.78],
+    cells: [0, 1, 2, 3],
+  },
+  {
+    name: "16th triplets in 6/8",
+    timeSignature: SIX_EIGHT,
+    subdivision: 'triplet',
+    counts: [0, 1 / 3, 2 / 3, 1],
+    cells: [0, 1, 2, 3],
+    subdivisions: [3, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2],
+  },
+  {
+    name: "two notes within a 16th",
+    timeSignature: FOUR_FOUR,
+    subdivision: '16th',
+    counts: [1, 1.05],
+    cells: [4],
+    merged: 1,
+  },
+  {
+    name: "notes past the fourth bar",
+    timeSignature: FOUR_FOUR,
+    subdivision: '16th',
+    counts: [0, 15, 16, 17],
+    cells: [0, 60],
+    bars: 4,
+    dropped: 2,
+  },
+  {
+    name: "a pickup before bar 1",
+    timeSignature: FOUR_FOUR,
+    subdivision: '16th',
+    counts: [-1, 0],
+    cells: [12, 16],
+    bars: 2,
+  },
+]
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b)
+
+let failures = 0
+for (const check of CASES) {
+  const beats = Array.from({ length: 12 * check.timeSignature.numerator }, (_, i) => i * SECONDS_PER_COUNT)
+  const onsets: OnsetData[] = check.counts.map((count, index) => ({
+    time: (count + check.timeSignature.numerator) * SECONDS_PER_COUNT,
+    index,
+    strength: 1,
+  }))
+  const { draft, bars, merged, dropped } = quantizeOnsets(onsets, {
+    beats,
+    downbeatPhase: check.timeSignature.numerator,
+    timeSignature: check.timeSignature,
+    bpm: BPM,
+    subdivision: check.subdivision,
+    maxBars: 4,
+  })
+
+  const cells = draft.pattern.flatMap((on, cell) => on ? [cell] : [])
+  const problems: string[] = []
+  if (!same(cells, check.cells)) problems.push(`cells ${cells.join(' ')}, expected ${check.cells.join(' ')}`)
+  if (!same(draft.subdivisions, check.subdivisions)) {
+    problems.push(`subdivisions ${draft.subdivisions?.join(' ') ?? 'straight'}, expected ${check.subdivisions?.join(' ') ?? 'straight'}`)
+  }
+  for (const [cell, duration] of Object.entries(check.durations ?? {})) {
+    if (draft.durations[Number(cell)] !== duration) problems.push(`cell ${cell} is a ${draft.durations[Number(cell)]}, expected a ${duration}`)
+  }
+  if (check.bars !== undefined && bars !== check.bars) problems.push(`${bars} bars, expected ${check.bars}`)
+  if (merged !== (check.merged ?? 0)) problems.push(`${merged} merged, expected ${check.merged ?? 0}`)
+  if (dropped !== (check.dropped ?? 0)) problems.push(`${dropped} dropped, expected ${check.dropped ?? 0}`)
+
+  if (problems.length > 0) failures++
+  console.log(`${problems.length === 0 ? 'ok  ' : 'FAIL'} ${check.name}${problems.length > 0 ? `: ${problems.join('; ')}` : ''}`)
+}
+
+console.log(`\n${CASES.length - failures}/${CASES.length} cases quantize as expected`)
+if (failures > 0) process.exit(1)
@@ -0,0 +1,38 @@
+import { computeOnsetEnvelope, estimateTempo } from "../lib/analysis"
+import { loadFixtures } from "./wav"
+
+// Checks that the tempo estimate of every labelled clip in test-audio/ matches the BPM
+// in its file name. Exits non-zero on any mismatch.
+//
+// The triplet, shuffle and polyrhythm clips count their labelled beat against an evenly
+// spaced pulse of 2/3 or 2/5 of a beat, so the clicks alone read as the pulse; they are
+// checked with the feel a player would set for them.
+
+const TOLERANCE = 0.02 // fraction of the labelled BPM
+
+const BEAT_DIVISIONS: Record<string, number> = {
+  "triplet-feel-90bpm": 3,
+  "shuffle-blues-75bpm": 3,
+  "complex-polyrhythm-140bpm": 5,
+}
+
+let failures = 0
+let checked = 0
+for (const fixture of loadFixtures()) {
+  if (!fixture.bpm) continue
+  checked++
+  const beatDivision = BEAT_DIVISIONS[fixture.name]
+  const envelope = computeOnsetEnvelope(fixture.data, fixture.sampleRate)
+  const estimate = estimateTempo(envelope, beatDivision ? { beatDivision } : {})
+  const ok = !!estimate && Math.abs(estimate.bpm - fixture.bpm) <= fixture.bpm * TOLERANCE
+  if (!ok) failures++
+  const feel = beatDivision ? ` (beat division ${beatDivision})` : ''
+  console.log(`${ok ? 'ok  ' : 'FAIL'} ${fixture.name}${feel}: ${estimate ? `${estimate.bpm} BPM` : 'no estimate'}, labelled ${fixture.bpm}`)
+}
+
+if (checked === 0) {
+  console.error('No labelled clips found in test-audio/')
+  process.exit(1)
+}
+console.log(`\n${checked - failures}/${checked} clips match their labelled tempo`)
+if (failures > 0) process.exit(1)
@@ -0,0 +1,73 @@
+import { readdirSync, readFileSync } from "node:fs"
+import { basename, join } from "node:path"
+
+// Minimal WAV reader for the headless scripts: PCM 8/16/24/32-bit or 32-bit float,
+// any channel count, mixed down to mono like the analyzer does with uploads.
+
+export interface WavData {
+  data: Float32Array
+  sampleRate: number
+}
+
+export interface Fixture extends WavData {
+  name: string
+  bpm: number | null // from the file name, e.g. "funk-syncopated-100bpm.wav"
+}
+
+export const TEST_AUDIO_DIR = join(__dirname, "..", "test-audio")
+
+export function readWav(path: string): WavData {
+  const buffer = readFileSync(path)
+  if (buffer.toString("ascii", 0, 4) !== "RIFF" || buffer.toString("ascii", 8, 12) !== "WAVE") {
+    throw new Error(`${path} is not a WAV file`)
+  }
+
+  let format = 0
+  let channels = 0
+  let sampleRate = 0
+  let bitsPerSample = 0
+  let offset = 12
+  while (offset + 8 <= buffer.length) {
+    const id = buffer.toString("ascii", offset, offset + 4)
+    const size = buffer.readUInt32LE(offset + 4)
+    const body = offset + 8
+    if (id === "fmt ") {
+      format = buffer.readUInt16LE(body)
+      channels = buffer.readUInt16LE(body + 2)
+      sampleRate = buffer.readUInt32LE(body + 4)
+      bitsPerSample = buffer.readUInt16LE(body + 14)
+      // WAVE_FORMAT_EXTENSIBLE keeps the real format in the sub-format GUID
+      if (format === 0xfffe) format = buffer.readUInt16LE(body + 24)
+    } else if (id === "data") {
+      if (!channels) throw new Error(`${path}: data before fmt chunk`)
+      const bytesPerSample = bitsPerSample / 8
+      const frames = Math.floor(Math.min(size, buffer.length - body) / (bytesPerSample * channels))
+      const data = new Float32Array(frames)
+      for (let frame = 0; frame < frames; frame++) {
+        let sum = 0
+        for (let channel = 0; channel < channels; channel++) {
+          const at = body + (frame * channels + channel) * bytesPerSample
+          if (format === 3) sum += buffer.readFloatLE(at)
+          else if (bitsPerSample === 8) sum += (buffer.readUInt8(at) - 128) / 128
+          else if (bitsPerSample === 16) sum += buffer.readInt16LE(at) / 32768
+          else if (bitsPerSample === 24) sum += buffer.readIntLE(at, 3) / 8388608
+          else sum += buffer.readInt32LE(at) / 2147483648
+        }
+        data[frame] = sum / channels
+      }
+      return { data, sampleRate }
+    }
+    offset = body + size + (size % 2)
+  }
+  throw new Error(`${path}: no data chunk`)
+}
+
+export function loadFixtures(dir = TEST_AUDIO_DIR): Fixture[] {
+  return readdirSync(dir)
+    .filter(file => file.toLowerCase().endsWith(".wav"))
+    .sort()
+    .map(file => {
+      const match = /(\d+(?:\.\d+)?)bpm/i.exec(file)
+      return { name: basename(file, ".wav"), bpm: match ? Number(match[1]) : null, ...readWav(join(dir, file)) }
+    })
+}